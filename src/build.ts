@@ -1,7 +1,15 @@
+import { createHash } from "crypto";
 import fs from "fs";
 import path from "path";
 import { UMAP } from "umap-js";
+import { clusterPoints } from "./cluster.js";
+import type { ItemComment } from "./comments.js";
 import type { EmbeddingRecord } from "./embed.js";
+import { type EmbeddingProviderName, supportsDimensions } from "./embedders.js";
+import { combineFields, type EmbeddingField, type FieldWeights, parseWeights } from "./fields.js";
+import { clusterKeywords } from "./labels.js";
+import type { ItemLink } from "./links.js";
+import { encodeVector, readEmbeddingRecords, VECTOR_ENCODINGS, type VectorEncoding } from "./vectors.js";
 
 export interface BuildOptions {
 	input: string;
@@ -12,6 +20,12 @@ export interface BuildOptions {
 	spread: number;
 	includeEmbeddings: boolean;
 	force: boolean;
+	// Project weighted title, body and files vectors instead of the combined embedding
+	weights?: FieldWeights;
+	// Encoding of the search vectors in the viewer, int8 and binary make it a lot smaller
+	searchEncoding: VectorEncoding;
+	// Smallest group of points that counts as a cluster, 0 turns clustering off
+	minClusterSize: number;
 }
 
 interface Point {
@@ -23,30 +37,99 @@ interface Point {
 	title: string;
 	number?: number;
 	url: string;
+	repo?: string;
 	body: string;
 	state?: string;
 	type?: string;
+	createdAt?: string;
+	updatedAt?: string;
+	author?: string;
+	labels?: string[];
+	assignees?: string[];
+	milestone?: string;
+	commentCount?: number;
+	reactionCount?: number;
 	files?: string[];
-	embedding?: number[];
+	comments?: ItemComment[];
+	links?: ItemLink[];
+	// Cluster on the 2D map, -1 for points in no cluster, unset when clustering is off
+	clusterId?: number;
+	// Base64 vectors for semantic search, in the encoding of BuildOptions.searchEncoding
+	embedding?: string;
+	chunks?: { text: string; embedding: string }[];
+	fieldEmbeddings?: Partial<Record<EmbeddingField, string>>;
+}
+
+// Providers the viewer can embed search queries with, from the browser
+export const SEARCH_PROVIDERS: EmbeddingProviderName[] = ["openai", "ollama"];
+
+// Clusters are labeled at the centroid of their points, in both projections
+interface Cluster {
+	id: number;
+	size: number;
+	keywords: string[];
+	x: number;
+	y: number;
+	x3d: number;
+	y3d: number;
+	z3d: number;
+}
+
+// Identifies the exact set of embedded records, so incremental updates invalidate cached projections
+export function projectionsFingerprint(entries: EmbeddingRecord[]): string {
+	return createHash("sha256")
+		.update(entries.map((entry) => `${entry.url}@${entry.updatedAt ?? ""}`).join("\n"))
+		.digest("hex");
 }
 
 export async function build(options: BuildOptions): Promise<void> {
 	const inputPath = path.resolve(options.input);
 	const outputPath = path.resolve(options.output);
 
-	const lines = fs.readFileSync(inputPath, "utf8").split("\n").filter(Boolean);
-	const entries: EmbeddingRecord[] = [];
-	for (const line of lines) {
-		try {
-			entries.push(JSON.parse(line));
-		} catch {
-			// skip invalid lines
+	const entries = readEmbeddingRecords(inputPath);
+	const lengths = new Set(entries.map((entry) => entry.embedding.length));
+	if (lengths.size > 1) {
+		throw new Error(
+			`${inputPath} mixes vectors of ${Array.from(lengths).join(", ")} dimensions, embed again with one --dimensions setting`,
+		);
+	}
+
+	// The viewer embeds search queries with the model and API the items were embedded with, which it can only
+	// do for OpenAI, OpenAI-compatible servers and Ollama
+	if (options.includeEmbeddings && entries.length > 0) {
+		const models = new Set(
+			entries.map(
+				(entry) =>
+					`${entry.provider ?? "unknown"} ${entry.model ?? "model"}${entry.baseUrl ? ` at ${entry.baseUrl}` : ""}`,
+			),
+		);
+		if (models.size > 1) {
+			throw new Error(`${inputPath} mixes vectors of ${Array.from(models).join(", ")}, embed again with one model`);
+		}
+		const { provider, model } = entries[0];
+		if (!provider || !model) {
+			throw new Error(
+				`${inputPath} doesn't record the embedding model that --search needs, embed again (cached vectors are reused)`,
+			);
+		}
+		if (!SEARCH_PROVIDERS.includes(provider)) {
+			throw new Error(
+				`--search embeds queries with ${SEARCH_PROVIDERS.join(" or ")}, ${inputPath} was embedded with ${provider} ${model}`,
+			);
 		}
 	}
 
-	const embeddings = entries.map((entry) => entry.embedding);
+	const weights = options.weights;
+	if (weights && entries.some((entry) => !entry.fieldEmbeddings)) {
+		throw new Error(`${inputPath} has no title, body and files vectors for --weights, embed with --fields`);
+	}
+	const embeddings = entries.map((entry) =>
+		weights ? combineFields(entry.fieldEmbeddings!, weights, entry.embedding.length) : entry.embedding,
+	);
 	const projectionsPath = path.resolve(options.projections);
 
+	const fingerprint = projectionsFingerprint(entries);
+
 	let coords2d: number[][] = [];
 	let coords3d: number[][] = [];
 
@@ -56,7 +139,11 @@ export async function build(options: BuildOptions): Promise<void> {
 		const cached = JSON.parse(fs.readFileSync(projectionsPath, "utf8"));
 		const meta = cached.meta ?? {};
 		const metaMatches =
-			meta.neighbors === options.neighbors && meta.minDist === options.minDist && meta.spread === options.spread;
+			meta.neighbors === options.neighbors &&
+			meta.minDist === options.minDist &&
+			meta.spread === options.spread &&
+			JSON.stringify(meta.weights ?? null) === JSON.stringify(weights ?? null) &&
+			meta.fingerprint === fingerprint;
 		if (metaMatches && cached.coords2d && cached.coords3d) {
 			coords2d = cached.coords2d;
 			coords3d = cached.coords3d;
@@ -96,6 +183,8 @@ export async function build(options: BuildOptions): Promise<void> {
 					neighbors: options.neighbors,
 					minDist: options.minDist,
 					spread: options.spread,
+					weights,
+					fingerprint,
 				},
 			}),
 		);
@@ -124,6 +213,32 @@ export async function build(options: BuildOptions): Promise<void> {
 	const rangeY3 = maxY3 - minY3 || 1;
 	const rangeZ3 = maxZ3 - minZ3 || 1;
 
+	let clusterIds: number[] | undefined;
+	if (options.minClusterSize > 0) {
+		clusterIds = clusterPoints(coords2d, options.minClusterSize);
+		const clusters = new Set(clusterIds.filter((id) => id >= 0)).size;
+		const noise = clusterIds.filter((id) => id < 0).length;
+		console.log(`Found ${clusters} clusters, ${noise} points in none`);
+	}
+
+	const searchVector = (vector: number[]) => encodeVector(vector, options.searchEncoding).toString("base64");
+	// Search queries are embedded by the same API and model, at the dimensions and with the prefix the items
+	// were embedded with. Models that can't shorten their vectors are asked for full ones, cut in the viewer.
+	const first = entries[0];
+	const nativeDimensions =
+		first?.dimensions !== undefined && first.provider && first.model
+			? supportsDimensions(first.provider, first.model)
+			: false;
+	const searchSettings = {
+		encoding: options.searchEncoding,
+		dimensions: first?.embedding.length ?? 0,
+		requestDimensions: nativeDimensions ? first.dimensions : null,
+		queryPrefix: first?.queryPrefix ?? "",
+		provider: first?.provider ?? null,
+		model: first?.model ?? null,
+		baseUrl: first?.baseUrl?.replace(/\/+$/, "") ?? null,
+	};
+
 	const points: Point[] = coords2d.map((coord, index) => {
 		const entry = entries[index];
 		const coord3d = coords3d[index] || [0, 0, 0];
@@ -136,17 +251,60 @@ export async function build(options: BuildOptions): Promise<void> {
 			title: entry.title || "",
 			number: entry.number,
 			url: entry.url || "",
+			repo: entry.repo,
 			body: entry.body || "",
 			state: entry.state,
 			type: entry.type,
+			createdAt: entry.createdAt,
+			updatedAt: entry.updatedAt,
+			author: entry.author,
+			labels: entry.labels,
+			assignees: entry.assignees,
+			milestone: entry.milestone,
+			commentCount: entry.commentCount,
+			reactionCount: entry.reactionCount,
 			files: entry.files,
-			embedding: options.includeEmbeddings ? entry.embedding : undefined,
+			comments: entry.comments,
+			links: entry.links,
+			clusterId: clusterIds?.[index],
+			embedding: options.includeEmbeddings ? searchVector(entry.embedding) : undefined,
+			chunks: options.includeEmbeddings
+				? entry.chunks?.map((chunk) => ({ text: chunk.text, embedding: searchVector(chunk.embedding) }))
+				: undefined,
+			fieldEmbeddings:
+				options.includeEmbeddings && weights && entry.fieldEmbeddings
+					? Object.fromEntries(
+							Object.entries(entry.fieldEmbeddings).map(([field, vector]) => [field, searchVector(vector)]),
+						)
+					: undefined,
 		};
 	});
 
+	const clusters: Cluster[] = clusterIds
+		? clusterKeywords(entries, clusterIds).map((keywords, id) => {
+				const members = points.filter((point) => point.clusterId === id);
+				const mean = (key: "x" | "y" | "x3d" | "y3d" | "z3d") =>
+					members.reduce((sum, point) => sum + point[key], 0) / members.length;
+				return {
+					id,
+					size: members.length,
+					keywords,
+					x: mean("x"),
+					y: mean("y"),
+					x3d: mean("x3d"),
+					y3d: mean("y3d"),
+					z3d: mean("z3d"),
+				};
+			})
+		: [];
+	for (const cluster of clusters.slice(0, 10)) {
+		console.log(`  Cluster ${cluster.id + 1} (${cluster.size}): ${cluster.keywords.join(", ")}`);
+	}
+
 	const dataJson = JSON.stringify(points).replace(/</g, "\\u003c");
+	const clustersJson = JSON.stringify(clusters).replace(/</g, "\\u003c");
 
-	const html = generateHtml(dataJson);
+	const html = generateHtml(dataJson, JSON.stringify(weights ?? null), JSON.stringify(searchSettings), clustersJson);
 
 	const outputDir = path.dirname(outputPath);
 	fs.mkdirSync(outputDir, { recursive: true });
@@ -155,7 +313,7 @@ export async function build(options: BuildOptions): Promise<void> {
 	console.log(`Wrote ${outputPath}`);
 }
 
-function generateHtml(dataJson: string): string {
+function generateHtml(dataJson: string, weightsJson: string, searchSettingsJson: string, clustersJson: string): string {
 	return `<!doctype html>
 <html lang="en">
   <head>
@@ -253,6 +411,35 @@ function generateHtml(dataJson: string): string {
       #filters input[type="checkbox"] {
         margin: 0;
       }
+      #repo-filters {
+        margin-bottom: 8px;
+        padding-bottom: 8px;
+        border-bottom: 1px solid rgba(148, 163, 184, 0.2);
+        font-size: 11px;
+      }
+      #repo-filters-header {
+        display: flex;
+        justify-content: space-between;
+        margin-bottom: 4px;
+      }
+      #repo-filters label {
+        display: flex;
+        align-items: center;
+        gap: 4px;
+        cursor: pointer;
+      }
+      #repo-list {
+        display: grid;
+        gap: 2px;
+        max-height: 160px;
+        overflow: auto;
+      }
+      .repo-swatch {
+        width: 8px;
+        height: 8px;
+        border-radius: 50%;
+        flex-shrink: 0;
+      }
       #search-wrap {
         display: flex;
         gap: 6px;
@@ -322,6 +509,55 @@ function generateHtml(dataJson: string): string {
         border-color: var(--accent);
         color: var(--accent);
       }
+      #clusters {
+        margin-bottom: 12px;
+        padding-bottom: 8px;
+        border-bottom: 1px solid rgba(148, 163, 184, 0.2);
+        font-size: 12px;
+      }
+      #clusters-header {
+        display: flex;
+        justify-content: space-between;
+        margin-bottom: 4px;
+        color: var(--muted);
+      }
+      #clusters-header label {
+        display: flex;
+        align-items: center;
+        gap: 4px;
+        cursor: pointer;
+      }
+      #cluster-list {
+        display: grid;
+        gap: 2px;
+        max-height: 160px;
+        overflow: auto;
+      }
+      .cluster-btn {
+        display: flex;
+        align-items: center;
+        gap: 6px;
+        background: transparent;
+        color: var(--text);
+        border: none;
+        border-radius: 4px;
+        padding: 2px 4px;
+        font-size: 12px;
+        text-align: left;
+        cursor: pointer;
+      }
+      .cluster-btn:hover {
+        background: rgba(148, 163, 184, 0.15);
+      }
+      .cluster-keywords {
+        flex: 1;
+        overflow: hidden;
+        text-overflow: ellipsis;
+        white-space: nowrap;
+      }
+      .cluster-size {
+        color: var(--muted);
+      }
       #selection-count {
         color: var(--muted);
         margin-bottom: 12px;
@@ -389,6 +625,69 @@ function generateHtml(dataJson: string): string {
         background: rgba(251, 191, 36, 0.2);
         color: #fbbf24;
       }
+      .badge-label {
+        background: rgba(148, 163, 184, 0.15);
+        color: var(--text);
+        text-transform: none;
+        font-weight: 500;
+      }
+      .badge-milestone {
+        background: rgba(244, 114, 182, 0.2);
+        color: #f472b6;
+        text-transform: none;
+      }
+      .item-labels {
+        display: flex;
+        flex-wrap: wrap;
+        gap: 4px;
+        margin-top: 6px;
+      }
+      .item-meta {
+        display: flex;
+        flex-wrap: wrap;
+        gap: 2px 10px;
+        margin-top: 6px;
+        color: var(--muted);
+        font-size: 11px;
+      }
+      .item-links {
+        display: grid;
+        gap: 2px;
+        margin-top: 6px;
+        font-size: 11px;
+        color: var(--muted);
+      }
+      .item-links a {
+        font-size: 11px;
+        font-weight: 500;
+      }
+      .item-passage {
+        margin: 6px 0 0;
+        padding-left: 8px;
+        border-left: 2px solid var(--accent);
+        font-size: 11px;
+        white-space: pre-wrap;
+      }
+      .item-comments {
+        margin-top: 6px;
+        font-size: 11px;
+      }
+      .item-comments summary {
+        cursor: pointer;
+        color: var(--accent);
+      }
+      .comment {
+        margin-top: 6px;
+        padding-left: 8px;
+        border-left: 2px solid rgba(148, 163, 184, 0.3);
+      }
+      .comment-meta {
+        color: var(--muted);
+      }
+      #selected-list .comment p {
+        margin-top: 2px;
+        -webkit-line-clamp: 6;
+      }
       .legend {
         display: flex;
         gap: 12px;
@@ -429,6 +728,15 @@ function generateHtml(dataJson: string): string {
             <label><input type="checkbox" id="filter-issue" checked> Issues</label>
             <label><input type="checkbox" id="filter-open" checked> Open</label>
             <label><input type="checkbox" id="filter-closed" checked> Closed</label>
+            <label id="show-links-wrap"><input type="checkbox" id="show-links" checked> Links</label>
+            <label id="show-labels-wrap"><input type="checkbox" id="show-labels" checked> Labels</label>
+          </div>
+          <div id="repo-filters">
+            <div id="repo-filters-header">
+              <span>Repos</span>
+              <label><input type="checkbox" id="color-by-repo"> Color by repo</label>
+            </div>
+            <div id="repo-list"></div>
           </div>
           <div id="search-wrap">
             <input type="text" id="search-input" placeholder="Semantic search..." />
@@ -454,12 +762,22 @@ function generateHtml(dataJson: string): string {
             <button id="copy-btn" class="sidebar-btn" type="button">Copy</button>
           </div>
         </div>
+        <div id="clusters">
+          <div id="clusters-header">
+            <span id="cluster-summary"></span>
+            <label><input type="checkbox" id="color-by-cluster"> Color by cluster</label>
+          </div>
+          <div id="cluster-list"></div>
+        </div>
         <div id="selection-count">0 selected</div>
         <ul id="selected-list"></ul>
       </aside>
     </div>
     <script>
       const data = ${dataJson};
+      const fieldWeights = ${weightsJson};
+      const searchSettings = ${searchSettingsJson};
+      const clusters = ${clustersJson};
       const canvas = document.getElementById("plot");
       const ctx = canvas.getContext("2d");
       const selectionCount = document.getElementById("selection-count");
@@ -473,10 +791,18 @@ function generateHtml(dataJson: string): string {
       const copyBtn = document.getElementById("copy-btn");
       const searchInput = document.getElementById("search-input");
       const searchBtn = document.getElementById("search-btn");
+      // Best matching chunk of each item found by the last search
+      const searchPassages = new Map();
       const filterPr = document.getElementById("filter-pr");
       const filterIssue = document.getElementById("filter-issue");
       const filterOpen = document.getElementById("filter-open");
       const filterClosed = document.getElementById("filter-closed");
+      const colorByRepo = document.getElementById("color-by-repo");
+      const repoList = document.getElementById("repo-list");
+      const showLinks = document.getElementById("show-links");
+      const colorByCluster = document.getElementById("color-by-cluster");
+      const clusterList = document.getElementById("cluster-list");
+      const showLabels = document.getElementById("show-labels");
       
       const styles = getComputedStyle(document.documentElement);
       const colors = {
@@ -485,7 +811,9 @@ function generateHtml(dataJson: string): string {
         pointClosed: styles.getPropertyValue("--point-closed").trim() || "#a78bfa",
         selected: styles.getPropertyValue("--selected").trim() || "#f59e0b",
         accent: styles.getPropertyValue("--accent").trim() || "#38bdf8",
-        muted: styles.getPropertyValue("--muted").trim() || "#94a3b8"
+        muted: styles.getPropertyValue("--muted").trim() || "#94a3b8",
+        text: styles.getPropertyValue("--text").trim() || "#f8fafc",
+        background: styles.getPropertyValue("--bg").trim() || "#0f172a"
       };
       
       let apiKey = null;
@@ -498,8 +826,148 @@ function generateHtml(dataJson: string): string {
         document.getElementById("search-wrap").style.display = "none";
       }
       
+      const formatRelative = (iso) => {
+        const time = Date.parse(iso);
+        if (Number.isNaN(time)) return "";
+        const seconds = Math.max(0, (Date.now() - time) / 1000);
+        const units = [["y", 31536000], ["mo", 2592000], ["d", 86400], ["h", 3600], ["m", 60]];
+        for (const [unit, size] of units) {
+          if (seconds >= size) return Math.floor(seconds / size) + unit + " ago";
+        }
+        return "just now";
+      };
+
+      const repos = Array.from(new Set(data.map(p => p.repo).filter(Boolean))).sort();
+      const hasRepos = repos.length > 1;
+      // Golden-angle hues keep neighbouring repos apart even with many repos
+      const repoColors = new Map(repos.map((repo, i) => [repo, "hsl(" + Math.round((i * 137.5) % 360) + ", 70%, 65%)"]));
+      const hiddenRepos = new Set();
+
+      if (hasRepos) {
+        for (const repo of repos) {
+          const label = document.createElement("label");
+          const checkbox = document.createElement("input");
+          checkbox.type = "checkbox";
+          checkbox.checked = true;
+          checkbox.addEventListener("change", () => {
+            if (checkbox.checked) hiddenRepos.delete(repo);
+            else hiddenRepos.add(repo);
+            scheduleRender();
+          });
+          const swatch = document.createElement("span");
+          swatch.className = "repo-swatch";
+          swatch.style.background = repoColors.get(repo);
+          const count = data.filter(p => p.repo === repo).length;
+          label.append(checkbox, swatch, repo + " (" + count + ")");
+          repoList.appendChild(label);
+        }
+      } else {
+        document.getElementById("repo-filters").style.display = "none";
+      }
+
+      // Cluster ids are ordered by size, so the list starts with the largest cluster
+      const clusterMembers = [];
+      data.forEach((p, i) => {
+        if (p.clusterId === undefined || p.clusterId < 0) return;
+        if (!clusterMembers[p.clusterId]) clusterMembers[p.clusterId] = [];
+        clusterMembers[p.clusterId].push(i);
+      });
+      const hasClusters = clusterMembers.length > 0;
+      const clusterColors = clusterMembers.map((_, i) => "hsl(" + Math.round((i * 137.5) % 360) + ", 70%, 65%)");
+
+      if (hasClusters) {
+        const clustered = clusterMembers.reduce((sum, members) => sum + members.length, 0);
+        document.getElementById("cluster-summary").textContent =
+          clusterMembers.length + " clusters, " + (data.length - clustered) + " items in none";
+        clusterMembers.forEach((members, id) => {
+          const button = document.createElement("button");
+          button.type = "button";
+          button.className = "cluster-btn";
+          const swatch = document.createElement("span");
+          swatch.className = "repo-swatch";
+          swatch.style.background = clusterColors[id];
+          const keywords = document.createElement("span");
+          keywords.className = "cluster-keywords";
+          keywords.textContent = (id + 1) + ". " + (clusters[id].keywords.join(", ") || "Cluster " + (id + 1));
+          keywords.title = keywords.textContent;
+          const size = document.createElement("span");
+          size.className = "cluster-size";
+          size.textContent = members.length;
+          button.append(swatch, keywords, size);
+          button.addEventListener("click", () => {
+            state.selected.clear();
+            for (const index of members) {
+              if (isVisible(data[index])) state.selected.add(index);
+            }
+            updateSidebar();
+            scheduleRender();
+          });
+          clusterList.appendChild(button);
+        });
+      } else {
+        document.getElementById("clusters").style.display = "none";
+        document.getElementById("show-labels-wrap").style.display = "none";
+      }
+
+      // Repo and cluster colors replace each other
+      colorByRepo.addEventListener("change", () => {
+        if (colorByRepo.checked) colorByCluster.checked = false;
+      });
+      colorByCluster.addEventListener("change", () => {
+        if (colorByCluster.checked) colorByRepo.checked = false;
+      });
+
+      // Prefixes the number with the repo when the map spans several repos, e.g. owner/name#123
+      const itemRef = (item) => {
+        const num = item.number ? "#" + item.number : "";
+        return hasRepos && item.repo ? item.repo + num : num;
+      };
+
+      // Links recorded on either end show up on both items. edges holds each linked pair once for the plot.
+      const indexByRef = new Map();
+      data.forEach((p, i) => {
+        if (p.number) indexByRef.set((p.repo || "") + "#" + p.number, i);
+      });
+      const itemLinks = data.map(() => []);
+      const edges = [];
+      const edgeKeys = new Set();
+      const addItemLink = (i, entry) => {
+        const key = entry.kind + (entry.incoming ? "<" : ">") + entry.repo + "#" + entry.number;
+        if (itemLinks[i].some(l => l.key === key)) return;
+        entry.key = key;
+        itemLinks[i].push(entry);
+      };
+      data.forEach((p, i) => {
+        for (const link of p.links || []) {
+          const ref = link.repo + "#" + link.number;
+          const j = indexByRef.has(ref) ? indexByRef.get(ref) : -1;
+          if (j === i) continue;
+          addItemLink(i, { kind: link.kind, incoming: !!link.incoming, repo: link.repo, number: link.number, url: link.url, index: j });
+          if (j < 0 || !p.number) continue;
+          addItemLink(j, { kind: link.kind, incoming: !link.incoming, repo: p.repo || "", number: p.number, url: p.url, index: i });
+          const edgeKey = Math.min(i, j) + "-" + Math.max(i, j);
+          if (edgeKeys.has(edgeKey)) continue;
+          edgeKeys.add(edgeKey);
+          edges.push({ a: i, b: j, kind: link.kind });
+        }
+      });
+      if (!edges.length) {
+        document.getElementById("show-links-wrap").style.display = "none";
+      }
+
+      const linkLabels = {
+        closes: ["Closes", "Closed by"],
+        duplicate: ["Duplicate of", "Has duplicate"],
+        mentions: ["Mentions", "Mentioned in"]
+      };
+      const linkOrder = ["closes", "duplicate", "mentions"];
+
       const getPointColor = (point, isSelected) => {
         if (isSelected) return colors.selected;
+        if (hasRepos && colorByRepo.checked && point.repo) return repoColors.get(point.repo);
+        if (hasClusters && colorByCluster.checked) {
+          return point.clusterId >= 0 ? clusterColors[point.clusterId] : colors.muted;
+        }
         if (!hasStates) return colors.point;
         if (point.state === "open") return colors.pointOpen;
         if (point.state === "closed") return colors.pointClosed;
@@ -515,7 +983,8 @@ function generateHtml(dataJson: string): string {
           (point.state === "open" && filterOpen.checked) ||
           (point.state === "closed" && filterClosed.checked) ||
           (!point.state);
-        return typeOk && stateOk;
+        const repoOk = !hasRepos || !point.repo || !hiddenRepos.has(point.repo);
+        return typeOk && stateOk && repoOk;
       };
 
       const view2d = {
@@ -619,8 +1088,8 @@ function generateHtml(dataJson: string): string {
           link.href = item.url;
           link.target = "_blank";
           link.rel = "noreferrer";
-          const num = item.number ? "#" + item.number + " " : "";
-          link.textContent = num + (item.title || item.url);
+          const ref = itemRef(item);
+          link.textContent = (ref ? ref + " " : "") + (item.title || item.url);
           header.appendChild(link);
           if (item.type) {
             const typeBadge = document.createElement("span");
@@ -635,11 +1104,127 @@ function generateHtml(dataJson: string): string {
             header.appendChild(stateBadge);
           }
           li.appendChild(header);
+          if ((item.labels && item.labels.length) || item.milestone) {
+            const labels = document.createElement("div");
+            labels.className = "item-labels";
+            for (const label of item.labels || []) {
+              const labelBadge = document.createElement("span");
+              labelBadge.className = "badge badge-label";
+              labelBadge.textContent = label;
+              labels.appendChild(labelBadge);
+            }
+            if (item.milestone) {
+              const milestoneBadge = document.createElement("span");
+              milestoneBadge.className = "badge badge-milestone";
+              milestoneBadge.textContent = item.milestone;
+              labels.appendChild(milestoneBadge);
+            }
+            li.appendChild(labels);
+          }
+          const metaParts = [];
+          if (item.author) metaParts.push("by " + item.author);
+          if (item.createdAt) {
+            const opened = document.createElement("span");
+            opened.textContent = "opened " + formatRelative(item.createdAt);
+            opened.title = item.createdAt;
+            metaParts.push(opened);
+          }
+          if (item.updatedAt && item.updatedAt !== item.createdAt) {
+            const updated = document.createElement("span");
+            updated.textContent = "updated " + formatRelative(item.updatedAt);
+            updated.title = item.updatedAt;
+            metaParts.push(updated);
+          }
+          if (item.assignees && item.assignees.length) metaParts.push("assigned " + item.assignees.join(", "));
+          if (item.commentCount) metaParts.push(item.commentCount + (item.commentCount === 1 ? " comment" : " comments"));
+          if (item.reactionCount) metaParts.push(item.reactionCount + (item.reactionCount === 1 ? " reaction" : " reactions"));
+          if (metaParts.length) {
+            const meta = document.createElement("div");
+            meta.className = "item-meta";
+            for (const part of metaParts) {
+              if (typeof part === "string") {
+                const span = document.createElement("span");
+                span.textContent = part;
+                meta.appendChild(span);
+              } else {
+                meta.appendChild(part);
+              }
+            }
+            li.appendChild(meta);
+          }
           if (item.body) {
             const snippet = document.createElement("p");
             snippet.textContent = item.body;
             li.appendChild(snippet);
           }
+          const passage = searchPassages.get(index);
+          if (passage) {
+            const quote = document.createElement("p");
+            quote.className = "item-passage";
+            quote.title = "Matching passage";
+            quote.textContent = passage;
+            li.appendChild(quote);
+          }
+          const links = itemLinks[index];
+          if (links.length) {
+            const linkList = document.createElement("div");
+            linkList.className = "item-links";
+            const sorted = links.slice().sort((a, b) => linkOrder.indexOf(a.kind) - linkOrder.indexOf(b.kind));
+            for (const entry of sorted) {
+              const row = document.createElement("div");
+              row.textContent = linkLabels[entry.kind][entry.incoming ? 1 : 0] + " ";
+              const target = entry.index >= 0 ? data[entry.index] : null;
+              const ref = target ? itemRef(target) : (hasRepos || entry.repo !== item.repo ? entry.repo : "") + "#" + entry.number;
+              const text = target && target.title ? ref + " " + target.title : ref;
+              const href = target ? target.url : entry.url;
+              if (href) {
+                const anchor = document.createElement("a");
+                anchor.href = href;
+                anchor.target = "_blank";
+                anchor.rel = "noreferrer";
+                anchor.textContent = text;
+                row.appendChild(anchor);
+              } else {
+                row.appendChild(document.createTextNode(text));
+              }
+              if (target && target.state) {
+                const stateBadge = document.createElement("span");
+                stateBadge.className = "badge badge-" + target.state;
+                stateBadge.textContent = target.state;
+                row.appendChild(stateBadge);
+              }
+              linkList.appendChild(row);
+            }
+            li.appendChild(linkList);
+          }
+          if (item.comments && item.comments.length) {
+            const details = document.createElement("details");
+            details.className = "item-comments";
+            const summary = document.createElement("summary");
+            // Only the most reacted-to comments are stored, the count says how many there are in all
+            const total = Math.max(item.commentCount || 0, item.comments.length);
+            summary.textContent = "Show " + item.comments.length +
+              (total > item.comments.length ? " of " + total : "") + (total === 1 ? " comment" : " comments");
+            details.appendChild(summary);
+            // Comments are rendered on first expand, selections can hold hundreds of items
+            details.addEventListener("toggle", () => {
+              if (!details.open || details.childElementCount > 1) return;
+              for (const comment of item.comments) {
+                const entry = document.createElement("div");
+                entry.className = "comment";
+                const meta = document.createElement("div");
+                meta.className = "comment-meta";
+                meta.textContent = (comment.author || "unknown") + (comment.createdAt ? " · " + formatRelative(comment.createdAt) : "");
+                if (comment.createdAt) meta.title = comment.createdAt;
+                entry.appendChild(meta);
+                const text = document.createElement("p");
+                text.textContent = comment.body;
+                entry.appendChild(text);
+                details.appendChild(entry);
+              }
+            });
+            li.appendChild(details);
+          }
           selectedList.appendChild(li);
         }
         if (selected.length > maxDisplay) {
@@ -713,6 +1298,26 @@ function generateHtml(dataJson: string): string {
         if (state.mode === "3d") {
           projected.sort((a, b) => a.screen.depth - b.screen.depth);
         }
+        // Links are drawn under the points: solid for closing references, dashed for duplicates, dotted for mentions
+        if (edges.length && showLinks.checked) {
+          const screens = new Map(projected.map(item => [item.index, item.screen]));
+          ctx.lineWidth = 1;
+          for (const edge of edges) {
+            const a = screens.get(edge.a);
+            const b = screens.get(edge.b);
+            if (!a || !b || a.culled || b.culled) continue;
+            const highlighted = state.selected.has(edge.a) || state.selected.has(edge.b);
+            ctx.strokeStyle = highlighted ? colors.selected : colors.accent;
+            ctx.globalAlpha = highlighted ? 0.9 : 0.35;
+            ctx.setLineDash(edge.kind === "duplicate" ? [4, 3] : edge.kind === "mentions" ? [1, 3] : []);
+            ctx.beginPath();
+            ctx.moveTo(a.x, a.y);
+            ctx.lineTo(b.x, b.y);
+            ctx.stroke();
+          }
+          ctx.globalAlpha = 1;
+          ctx.setLineDash([]);
+        }
         for (const item of projected) {
           if (item.screen.culled) continue;
           const point = data[item.index];
@@ -728,6 +1333,31 @@ function generateHtml(dataJson: string): string {
             ctx.fill();
           }
         }
+        // Keywords of each cluster at its centroid. Large clusters are labeled right away, smaller ones fade in
+        // as you zoom in, so labels don't pile up on the overview.
+        if (hasClusters && showLabels.checked) {
+          const zoom = state.mode === "3d" ? view3d.zoom / 1.2 : view2d.scale;
+          const visibleClusters = new Set(projected.map(item => data[item.index].clusterId));
+          ctx.font = "600 12px system-ui, sans-serif";
+          ctx.textAlign = "center";
+          ctx.textBaseline = "middle";
+          ctx.lineJoin = "round";
+          ctx.lineWidth = 3;
+          ctx.strokeStyle = colors.background;
+          ctx.fillStyle = colors.text;
+          for (const cluster of clusters) {
+            if (!cluster.keywords.length || !visibleClusters.has(cluster.id)) continue;
+            const alpha = clamp((zoom * Math.sqrt(cluster.size / clusters[0].size) - 0.3) / 0.3, 0, 1);
+            if (alpha === 0) continue;
+            const screen = getScreenPoint(cluster);
+            if (screen.culled) continue;
+            const text = cluster.keywords.slice(0, 3).join(", ");
+            ctx.globalAlpha = alpha;
+            ctx.strokeText(text, screen.x, screen.y);
+            ctx.fillText(text, screen.x, screen.y);
+          }
+          ctx.globalAlpha = 1;
+        }
         if (state.selectRect) {
           const rect = state.selectRect;
           const left = Math.min(rect.x0, rect.x1);
@@ -855,7 +1485,7 @@ function generateHtml(dataJson: string): string {
         setMode(state.mode === "2d" ? "3d" : "2d");
       });
       
-      [filterPr, filterIssue, filterOpen, filterClosed].forEach(el => {
+      [filterPr, filterIssue, filterOpen, filterClosed, colorByRepo, colorByCluster, showLinks, showLabels].forEach(el => {
         el.addEventListener("change", scheduleRender);
       });
       
@@ -872,57 +1502,126 @@ function generateHtml(dataJson: string): string {
         const selected = Array.from(state.selected);
         const lines = selected.map(index => {
           const item = data[index];
-          const num = item.number ? "#" + item.number : "";
           const type = item.type ? "[" + item.type.toUpperCase() + "]" : "";
-          return type + " " + num + " " + item.title + "\\n" + item.url;
+          return type + " " + itemRef(item) + " " + item.title + "\\n" + item.url;
         });
         navigator.clipboard.writeText(lines.join("\\n\\n"));
       });
       
+      // Search vectors are embedded as base64, decoded once on the first search
+      const decodeVector = (base64) => {
+        const binary = atob(base64);
+        const bytes = new Uint8Array(binary.length);
+        for (let i = 0; i < binary.length; i++) bytes[i] = binary.charCodeAt(i);
+        const view = new DataView(bytes.buffer);
+        const vector = new Float32Array(searchSettings.dimensions);
+        for (let i = 0; i < vector.length; i++) {
+          if (searchSettings.encoding === "float32") vector[i] = view.getFloat32(i * 4, true);
+          else if (searchSettings.encoding === "int8") vector[i] = view.getInt8(4 + i) * view.getFloat32(0, true);
+          else vector[i] = bytes[i >> 3] & (0x80 >> (i & 7)) ? 1 : -1;
+        }
+        return vector;
+      };
+      let searchVectorsDecoded = false;
+      const decodeSearchVectors = () => {
+        if (searchVectorsDecoded) return;
+        searchVectorsDecoded = true;
+        for (const point of data) {
+          if (point.embedding) point.embedding = decodeVector(point.embedding);
+          for (const chunk of point.chunks || []) chunk.embedding = decodeVector(chunk.embedding);
+          for (const field in point.fieldEmbeddings || {}) {
+            point.fieldEmbeddings[field] = decodeVector(point.fieldEmbeddings[field]);
+          }
+        }
+      };
+
+      // Queries go to the API the items were embedded with
+      const embedQuery = async (input) => {
+        const ollama = searchSettings.provider === "ollama";
+        const headers = { "Content-Type": "application/json" };
+        if (apiKey) headers.Authorization = "Bearer " + apiKey;
+        const url = ollama
+          ? (searchSettings.baseUrl || "http://localhost:11434") + "/api/embed"
+          : (searchSettings.baseUrl || "https://api.openai.com/v1") + "/embeddings";
+        const body = ollama
+          ? { model: searchSettings.model, input: [input] }
+          : {
+              model: searchSettings.model,
+              input: [input],
+              dimensions: searchSettings.requestDimensions || undefined,
+              encoding_format: "float",
+            };
+        const response = await fetch(url, { method: "POST", headers: headers, body: JSON.stringify(body) });
+        if (!response.ok) throw new Error(await response.text());
+        const result = await response.json();
+        return ollama ? result.embeddings[0] : result.data[0].embedding;
+      };
+
       const doSearch = async () => {
         const query = searchInput.value.trim();
         if (!query) return;
         
-        if (!apiKey) {
-          apiKey = prompt("Enter your OpenAI API key (session only, not stored):");
-          if (!apiKey) return;
+        // OpenAI needs a key, OpenAI-compatible servers often don't and Ollama never does
+        if (apiKey === null && searchSettings.provider === "openai") {
+          apiKey = searchSettings.baseUrl
+            ? prompt("API key for " + searchSettings.baseUrl + " (session only, not stored, leave empty if none):")
+            : prompt("Enter your OpenAI API key (session only, not stored):");
+          if (apiKey === null || (!apiKey && !searchSettings.baseUrl)) {
+            apiKey = null;
+            return;
+          }
         }
         
         searchBtn.disabled = true;
         searchBtn.textContent = "...";
         
         try {
-          const response = await fetch("https://api.openai.com/v1/embeddings", {
-            method: "POST",
-            headers: {
-              "Content-Type": "application/json",
-              "Authorization": "Bearer " + apiKey
-            },
-            body: JSON.stringify({
-              model: "text-embedding-3-small",
-              input: query
-            })
-          });
-          
-          if (!response.ok) {
-            const err = await response.text();
-            throw new Error(err);
+          let queryEmb = await embedQuery(searchSettings.queryPrefix + query);
+          // Vectors of models that can't shorten them were cut to their first dimensions
+          if (!searchSettings.requestDimensions && queryEmb.length > searchSettings.dimensions) {
+            queryEmb = queryEmb.slice(0, searchSettings.dimensions);
+          }
+          if (queryEmb.length !== searchSettings.dimensions) {
+            throw new Error("the query has " + queryEmb.length + " dimensions, the items " + searchSettings.dimensions);
           }
           
-          const result = await response.json();
-          const queryEmb = result.data[0].embedding;
-          
-          // Compute cosine similarity with all points
-          const similarities = data.map((point, index) => {
-            if (!point.embedding) return { index, sim: -1 };
+          decodeSearchVectors();
+          const cosine = (vector) => {
             let dot = 0, normA = 0, normB = 0;
             for (let i = 0; i < queryEmb.length; i++) {
-              dot += queryEmb[i] * point.embedding[i];
+              dot += queryEmb[i] * vector[i];
               normA += queryEmb[i] * queryEmb[i];
-              normB += point.embedding[i] * point.embedding[i];
+              normB += vector[i] * vector[i];
+            }
+            return dot / (Math.sqrt(normA) * Math.sqrt(normB));
+          };
+          
+          // Compute cosine similarity with all points, long items match on their best chunk
+          searchPassages.clear();
+          // With --weights, the similarity is the weighted similarity to the item's title, body and files
+          const pointSimilarity = (point) => {
+            if (!fieldWeights || !point.fieldEmbeddings) return cosine(point.embedding);
+            let sum = 0, total = 0;
+            for (const field in fieldWeights) {
+              const vector = point.fieldEmbeddings[field];
+              if (!vector || !fieldWeights[field]) continue;
+              sum += fieldWeights[field] * cosine(vector);
+              total += fieldWeights[field];
+            }
+            return total ? sum / total : -1;
+          };
+          const similarities = data.map((point, index) => {
+            if (!point.embedding) return { index, sim: -1 };
+            let sim = pointSimilarity(point);
+            let passage = null;
+            for (const chunk of point.chunks || []) {
+              const chunkSim = cosine(chunk.embedding);
+              if (chunkSim > sim) {
+                sim = chunkSim;
+                passage = chunk.text;
+              }
             }
-            const sim = dot / (Math.sqrt(normA) * Math.sqrt(normB));
-            return { index, sim };
+            return { index, sim, passage };
           });
           
           similarities.sort((a, b) => b.sim - a.sim);
@@ -932,6 +1631,7 @@ function generateHtml(dataJson: string): string {
           for (let i = 0; i < topN; i++) {
             if (similarities[i].sim > 0) {
               state.selected.add(similarities[i].index);
+              if (similarities[i].passage) searchPassages.set(similarities[i].index, similarities[i].passage);
             }
           }
           
@@ -993,6 +1693,8 @@ if (process.argv[1]?.endsWith("build.js") || process.argv[1]?.endsWith("build.ts
 		spread: 1.0,
 		includeEmbeddings: false,
 		force: false,
+		searchEncoding: "float32",
+		minClusterSize: 5,
 	};
 
 	for (let i = 0; i < args.length; i += 1) {
@@ -1013,6 +1715,22 @@ if (process.argv[1]?.endsWith("build.js") || process.argv[1]?.endsWith("build.ts
 			options.force = true;
 		} else if (arg === "--search") {
 			options.includeEmbeddings = true;
+		} else if (arg === "--search-vectors") {
+			const val = args[++i] as VectorEncoding;
+			if (!VECTOR_ENCODINGS.includes(val)) {
+				console.error(`--search-vectors must be ${VECTOR_ENCODINGS.join(", ")}`);
+				process.exit(1);
+			}
+			options.searchEncoding = val;
+		} else if (arg === "--weights") {
+			try {
+				options.weights = parseWeights(args[++i]);
+			} catch (error) {
+				console.error((error as Error).message);
+				process.exit(1);
+			}
+		} else if (arg === "--min-cluster-size") {
+			options.minClusterSize = Number(args[++i]);
 		}
 	}
 
@@ -0,0 +1,89 @@
+import { createHash } from "crypto";
+import fs from "fs";
+import os from "os";
+import path from "path";
+
+// Embeddings keyed on the model and the exact input text, so an item is only embedded again when its
+// text or the model changes. One JSONL file per model in a directory shared by all runs and repos.
+
+interface CacheEntry {
+	key: string;
+	// Item the text was last embedded for, used to prune the entries of edited items
+	url: string;
+	embedding: number[];
+}
+
+export interface EmbeddingCache {
+	get(text: string): number[] | undefined;
+	// Records the item the text belongs to, so entries for older texts of the item can be pruned
+	use(text: string, url: string): void;
+	put(text: string, url: string, embedding: number[]): void;
+	// Drops entries for texts the items used before they were edited. Returns the number of pruned entries.
+	prune(): number;
+	readonly path: string;
+}
+
+export function defaultCacheDir(): string {
+	const base = process.env.XDG_CACHE_HOME || path.join(os.homedir(), ".cache");
+	return path.join(base, "doppelgangers", "embeddings");
+}
+
+const cacheKey = (model: string, text: string) => createHash("sha256").update(`${model}\n${text}`).digest("hex");
+
+export function openEmbeddingCache(dir: string, model: string): EmbeddingCache {
+	fs.mkdirSync(dir, { recursive: true });
+	const filePath = path.join(dir, `${model.replace(/[^\w.-]+/g, "_")}.jsonl`);
+
+	// Later lines win, the file is appended to while embedding so interrupted runs keep their work
+	const entries = new Map<string, CacheEntry>();
+	let duplicates = 0;
+	if (fs.existsSync(filePath)) {
+		for (const line of fs.readFileSync(filePath, "utf8").split("\n")) {
+			if (!line) continue;
+			try {
+				const entry: CacheEntry = JSON.parse(line);
+				if (entries.has(entry.key)) duplicates++;
+				entries.set(entry.key, entry);
+			} catch {
+				// skip lines cut off by an interrupted write
+			}
+		}
+	}
+
+	const usedKeys = new Set<string>();
+	const usedUrls = new Set<string>();
+
+	return {
+		path: filePath,
+		get: (text) => entries.get(cacheKey(model, text))?.embedding,
+		use: (text, url) => {
+			usedKeys.add(cacheKey(model, text));
+			usedUrls.add(url);
+		},
+		put: (text, url, embedding) => {
+			const entry = { key: cacheKey(model, text), url, embedding };
+			entries.set(entry.key, entry);
+			usedKeys.add(entry.key);
+			usedUrls.add(url);
+			fs.appendFileSync(filePath, `${JSON.stringify(entry)}\n`);
+		},
+		prune: () => {
+			let pruned = 0;
+			for (const [key, entry] of entries) {
+				if (usedUrls.has(entry.url) && !usedKeys.has(key)) {
+					entries.delete(key);
+					pruned++;
+				}
+			}
+			if (pruned > 0 || duplicates > 0) {
+				const tempPath = `${filePath}.tmp`;
+				const fd = fs.openSync(tempPath, "w");
+				for (const entry of entries.values()) fs.writeSync(fd, `${JSON.stringify(entry)}\n`);
+				fs.closeSync(fd);
+				fs.renameSync(tempPath, filePath);
+				duplicates = 0;
+			}
+			return pruned;
+		},
+	};
+}
@@ -0,0 +1,146 @@
+import fs from "fs";
+import type { Item } from "./embed.js";
+
+// Progress of one source's fetch. Adapters run their stages (e.g. PRs, issues, diffs) in a fixed order.
+// The cursor is an opaque position within the current stage: a GraphQL cursor, a next-page URL or an
+// item index. Stages without a cursor restart from the beginning, duplicates are dropped after the fetch.
+export interface FetchProgress {
+	completed: string[];
+	stage?: string;
+	cursor?: string | null;
+	items: Item[];
+}
+
+export interface FetchCheckpoint {
+	// Progress saved by an interrupted run, or null to start from scratch
+	restored: FetchProgress | null;
+	save(progress: FetchProgress): void;
+}
+
+export interface StageRunner {
+	// Items collected so far, including restored ones. Adapters push to this array.
+	items: Item[];
+	// Runs a stage unless a previous run completed it. fn gets the cursor to resume from and reports
+	// its position after every page through advance.
+	run(
+		stage: string,
+		fn: (cursor: string | null, advance: (cursor: string | null) => void) => Promise<void>,
+	): Promise<void>;
+}
+
+export function createStageRunner(checkpoint?: FetchCheckpoint): StageRunner {
+	const restored = checkpoint?.restored ?? null;
+	const items: Item[] = restored ? restored.items : [];
+	const completed = restored ? [...restored.completed] : [];
+
+	const run: StageRunner["run"] = async (stage, fn) => {
+		if (completed.includes(stage)) return;
+		const cursor = restored?.stage === stage ? (restored.cursor ?? null) : null;
+		await fn(cursor, (next) => checkpoint?.save({ completed, stage, cursor: next, items }));
+		completed.push(stage);
+		checkpoint?.save({ completed, items });
+	};
+
+	return { items, run };
+}
+
+interface CheckpointSource {
+	// When the fetch of the source first started, used as its sync time so resumed runs miss no updates
+	startedAt: string;
+	progress: FetchProgress | null;
+	finished: boolean;
+}
+
+interface CheckpointFile {
+	key: string;
+	sources: Record<string, CheckpointSource>;
+}
+
+export interface CheckpointStore {
+	// The saved state of a source, created on first use
+	source(label: string): CheckpointSource & { checkpoint: FetchCheckpoint };
+	finish(label: string, items: Item[]): void;
+	// Writes pending progress to disk right away
+	flush(): void;
+	remove(): void;
+}
+
+// Progress is written at most this often, and on flush
+const WRITE_INTERVAL_MS = 30_000;
+
+// A checkpoint file holds the progress of one fetch run. key describes the run (settings, cutoffs, sync
+// times). A checkpoint with a different key is from another kind of run and is ignored.
+export function openCheckpointStore(filePath: string, key: string): CheckpointStore {
+	let data: CheckpointFile = { key, sources: {} };
+	if (fs.existsSync(filePath)) {
+		try {
+			const saved: CheckpointFile = JSON.parse(fs.readFileSync(filePath, "utf8"));
+			if (saved.key === key) {
+				data = saved;
+				const labels = Object.keys(saved.sources);
+				console.log(`Resuming from checkpoint ${filePath} (${labels.length} source(s) started)`);
+			} else {
+				console.log(`Ignoring checkpoint ${filePath}, it is from a run with different options`);
+			}
+		} catch {
+			console.log(`Ignoring unreadable checkpoint ${filePath}`);
+		}
+	}
+
+	let dirty = false;
+	let lastWrite = Date.now();
+	const flush = () => {
+		if (!dirty) return;
+		fs.writeFileSync(filePath, JSON.stringify(data));
+		dirty = false;
+		lastWrite = Date.now();
+	};
+	const markDirty = () => {
+		dirty = true;
+		if (Date.now() - lastWrite >= WRITE_INTERVAL_MS) flush();
+	};
+
+	return {
+		source: (label) => {
+			if (!data.sources[label]) {
+				data.sources[label] = { startedAt: new Date().toISOString(), progress: null, finished: false };
+			}
+			const entry = data.sources[label];
+			return {
+				...entry,
+				checkpoint: {
+					restored: entry.progress,
+					save: (progress) => {
+						entry.progress = progress;
+						markDirty();
+					},
+				},
+			};
+		},
+		finish: (label, items) => {
+			const entry = data.sources[label];
+			entry.progress = { completed: [], items };
+			entry.finished = true;
+			dirty = true;
+			flush();
+		},
+		flush,
+		remove: () => {
+			dirty = false;
+			fs.rmSync(filePath, { force: true });
+		},
+	};
+}
+
+// Calls fn for every entry from the index in cursor on, saving the next index after each entry
+export async function forEachFrom<T>(
+	list: T[],
+	cursor: string | null,
+	advance: (cursor: string | null) => void,
+	fn: (entry: T, index: number) => Promise<void>,
+): Promise<void> {
+	for (let index = cursor ? Number(cursor) : 0; index < list.length; index += 1) {
+		await fn(list[index], index);
+		advance(String(index + 1));
+	}
+}
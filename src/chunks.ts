@@ -0,0 +1,61 @@
+// Splitting long embedding inputs into overlapping chunks and pooling the chunk vectors into one
+
+export type Pooling = "mean" | "max" | "title";
+
+export const POOLINGS: Pooling[] = ["mean", "max", "title"];
+
+// A chunk kept on the embedding record, so semantic search can point at the matching passage
+export interface ChunkRecord {
+	text: string;
+	embedding: number[];
+}
+
+// Splits text into chunks of at most size characters that overlap by overlap characters. Chunks end
+// at a line break or space where possible, so words and stack trace lines stay whole.
+export function splitChunks(text: string, size: number, overlap: number): string[] {
+	if (text.length <= size) return [text];
+	const chunks: string[] = [];
+	let start = 0;
+	while (start < text.length) {
+		let end = Math.min(text.length, start + size);
+		if (end < text.length) {
+			const lineBreak = text.lastIndexOf("\n", end);
+			const space = text.lastIndexOf(" ", end);
+			if (lineBreak > start + size / 2) end = lineBreak;
+			else if (space > start + size / 2) end = space;
+		}
+		chunks.push(text.slice(start, end).trim());
+		if (end >= text.length) break;
+		// The overlap starts at a word boundary too
+		let next = Math.max(end - overlap, start + 1);
+		const boundary = text.slice(next, end).search(/\s/);
+		if (next > 0 && !/\s/.test(text[next - 1]) && boundary > 0) next += boundary + 1;
+		start = next;
+	}
+	return chunks.filter(Boolean);
+}
+
+const normalize = (vector: number[]): number[] => {
+	const norm = Math.sqrt(vector.reduce((sum, value) => sum + value * value, 0)) || 1;
+	return vector.map((value) => value / norm);
+};
+
+const mean = (vectors: number[][]): number[] => {
+	const result = new Array<number>(vectors[0].length).fill(0);
+	for (const vector of vectors) {
+		for (let i = 0; i < result.length; i += 1) result[i] += vector[i] / vectors.length;
+	}
+	return result;
+};
+
+// Combines chunk vectors into one unit vector. mean averages them, max takes the largest value per
+// dimension, title averages the title vector with the chunk mean so the title weighs as much as the body.
+export function poolVectors(chunks: number[][], pooling: Pooling, title?: number[]): number[] {
+	if (chunks.length === 1 && !title) return chunks[0];
+	if (pooling === "max") {
+		return normalize(chunks[0].map((_, i) => Math.max(...chunks.map((vector) => vector[i]))));
+	}
+	const pooled = normalize(mean(chunks));
+	if (pooling === "title" && title) return normalize(mean([normalize(title), pooled]));
+	return pooled;
+}
@@ -0,0 +1,141 @@
+import type { Item } from "./embed.js";
+
+// Strips issue and PR template boilerplate from bodies before embedding. Templates make every item
+// of a repo look alike, which pulls them into one blob on the map.
+
+export interface CleanOptions {
+	// Lines in more than this percentage of a repo's items are boilerplate. 0 turns detection off and is the
+	// default, detected lines change the embedding input of existing maps.
+	boilerplateThreshold: number;
+	// User rules, matches are removed
+	stripPatterns: RegExp[];
+}
+
+// Repos with fewer items have too little to tell template lines from coincidences
+const MIN_ITEMS_FOR_DETECTION = 10;
+
+// Headings of common issue and PR templates. Only the heading line is removed, its content stays.
+const TEMPLATE_HEADINGS = new Set([
+	"actual behavior",
+	"actual behaviour",
+	"additional context",
+	"additional information",
+	"changes",
+	"checklist",
+	"context",
+	"current behavior",
+	"describe the bug",
+	"description",
+	"environment",
+	"expected behavior",
+	"expected behaviour",
+	"how has this been tested",
+	"how to reproduce",
+	"motivation",
+	"motivation and context",
+	"notes",
+	"pr checklist",
+	"proposed changes",
+	"related issues",
+	"reproduction",
+	"screenshots",
+	"steps to reproduce",
+	"summary",
+	"test plan",
+	"testing",
+	"type of change",
+	"what does this pr do",
+	"what is the current behavior",
+	"what is the new behavior",
+	"version",
+]);
+
+const normalizeLine = (line: string) => line.trim().toLowerCase();
+
+const headingText = (line: string) =>
+	line
+		.replace(/^\s*#{1,6}\s+/, "")
+		.replace(/[*_:?]+/g, "")
+		.trim()
+		.toLowerCase();
+
+// Parses a --strip value: a pattern, or /pattern/flags. Matching is per line and global.
+export function parseStripPattern(value: string): RegExp {
+	const literal = value.match(/^\/(.+)\/([a-z]*)$/);
+	const source = literal ? literal[1] : value;
+	const flags = new Set(["g", "m", ...(literal ? literal[2] : "")]);
+	try {
+		return new RegExp(source, Array.from(flags).join(""));
+	} catch (error) {
+		throw new Error(`Invalid --strip pattern ${value}: ${(error as Error).message}`);
+	}
+}
+
+// Removes the generic template parts: HTML comments (template instructions), unchecked checklist
+// items, "_No response_" placeholders of issue forms and template headings
+function stripTemplate(body: string): string {
+	return body
+		.replace(/<!--[\s\S]*?(-->|$)/g, "")
+		.split("\n")
+		.filter((line) => {
+			if (/^\s*[-*+]\s+\[ \]/.test(line)) return false;
+			if (/^\s*_?no response_?\s*$/i.test(line)) return false;
+			if (/^\s*#{1,6}\s/.test(line) && TEMPLATE_HEADINGS.has(headingText(line))) return false;
+			return true;
+		})
+		.join("\n");
+}
+
+// Lines that appear in more than threshold percent of the items of their repo, counted once per item
+export function findBoilerplateLines(items: Item[], threshold: number): Map<string, Set<string>> {
+	const byRepo = new Map<string, Item[]>();
+	for (const item of items) {
+		const repo = item.repo ?? "";
+		const repoItems = byRepo.get(repo);
+		if (repoItems) repoItems.push(item);
+		else byRepo.set(repo, [item]);
+	}
+
+	const result = new Map<string, Set<string>>();
+	if (threshold <= 0) return result;
+	for (const [repo, repoItems] of byRepo) {
+		if (repoItems.length < MIN_ITEMS_FOR_DETECTION) continue;
+		const counts = new Map<string, number>();
+		for (const item of repoItems) {
+			const lines = new Set(
+				stripTemplate(item.body ?? "")
+					.split("\n")
+					.map(normalizeLine)
+					.filter(Boolean),
+			);
+			for (const line of lines) counts.set(line, (counts.get(line) ?? 0) + 1);
+		}
+		const minCount = (repoItems.length * threshold) / 100;
+		const lines = new Set(Array.from(counts).flatMap(([line, count]) => (count > minCount ? [line] : [])));
+		if (lines.size > 0) result.set(repo, lines);
+	}
+	return result;
+}
+
+export interface BodyCleaner {
+	clean(item: Item): string;
+	// Detected boilerplate lines per repo label
+	boilerplate: Map<string, Set<string>>;
+}
+
+export function createBodyCleaner(items: Item[], options: CleanOptions): BodyCleaner {
+	const boilerplate = findBoilerplateLines(items, options.boilerplateThreshold);
+	const clean = (item: Item): string => {
+		const lines = boilerplate.get(item.repo ?? "");
+		let body = stripTemplate((item.body ?? "").replace(/\r\n/g, "\n"));
+		if (lines) {
+			body = body
+				.split("\n")
+				.filter((line) => !lines.has(normalizeLine(line)))
+				.join("\n");
+		}
+		for (const pattern of options.stripPatterns) body = body.replace(pattern, "");
+		return body.replace(/\n{3,}/g, "\n\n").trim();
+	};
+	return { clean, boilerplate };
+}
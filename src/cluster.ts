@@ -0,0 +1,161 @@
+// HDBSCAN clustering of projected points. Dense regions become clusters, points between them stay
+// unclustered, and unlike a distance cutoff it copes with clusters of different density. Runs on the 2D
+// UMAP coordinates, so clusters match what the map shows. Pairs are compared directly, a few seconds for 10k points.
+
+// Cluster id of every point, -1 for noise. Ids are ordered by cluster size, 0 is the largest.
+export function clusterPoints(points: number[][], minClusterSize: number): number[] {
+	const n = points.length;
+	if (minClusterSize < 2 || n < minClusterSize) return new Array<number>(n).fill(-1);
+
+	const distance = (a: number, b: number) => {
+		let sum = 0;
+		for (let d = 0; d < points[a].length; d += 1) sum += (points[a][d] - points[b][d]) ** 2;
+		return Math.sqrt(sum);
+	};
+
+	// Core distance: how far the minClusterSize-th neighbor is, small in dense regions
+	const k = Math.min(minClusterSize, n - 1);
+	const core = new Float64Array(n);
+	const nearest = new Float64Array(k);
+	for (let i = 0; i < n; i += 1) {
+		nearest.fill(Number.POSITIVE_INFINITY);
+		for (let j = 0; j < n; j += 1) {
+			if (j === i) continue;
+			const d = distance(i, j);
+			if (d >= nearest[k - 1]) continue;
+			let slot = k - 1;
+			while (slot > 0 && nearest[slot - 1] > d) {
+				nearest[slot] = nearest[slot - 1];
+				slot--;
+			}
+			nearest[slot] = d;
+		}
+		core[i] = nearest[k - 1];
+	}
+
+	// Minimum spanning tree over mutual reachability distances (Prim), which push sparse points away
+	const inTree = new Uint8Array(n);
+	const best = new Float64Array(n).fill(Number.POSITIVE_INFINITY);
+	const from = new Int32Array(n).fill(-1);
+	const edges: { a: number; b: number; weight: number }[] = [];
+	let current = 0;
+	for (let step = 1; step < n; step += 1) {
+		inTree[current] = 1;
+		let next = -1;
+		for (let j = 0; j < n; j += 1) {
+			if (inTree[j]) continue;
+			const reach = Math.max(core[current], core[j], distance(current, j));
+			if (reach < best[j]) {
+				best[j] = reach;
+				from[j] = current;
+			}
+			if (next === -1 || best[j] < best[next]) next = j;
+		}
+		edges.push({ a: from[next], b: next, weight: best[next] });
+		current = next;
+	}
+	edges.sort((x, y) => x.weight - y.weight);
+
+	// Single linkage tree: leaves are points, node n + i is the i-th merge
+	const left = new Int32Array(n - 1);
+	const right = new Int32Array(n - 1);
+	const height = new Float64Array(n - 1);
+	const size = new Int32Array(2 * n - 1).fill(1);
+	const parent = Int32Array.from({ length: 2 * n - 1 }, (_, i) => i);
+	const find = (i: number) => {
+		while (parent[i] !== i) {
+			parent[i] = parent[parent[i]];
+			i = parent[i];
+		}
+		return i;
+	};
+	edges.forEach(({ a, b, weight }, merge) => {
+		const node = n + merge;
+		const ra = find(a);
+		const rb = find(b);
+		left[merge] = ra;
+		right[merge] = rb;
+		height[merge] = weight;
+		size[node] = size[ra] + size[rb];
+		parent[ra] = node;
+		parent[rb] = node;
+	});
+
+	// Condensed tree: walking down from the root, a split only creates two clusters when both sides have
+	// minClusterSize points, otherwise the small side falls out of the cluster as noise
+	const lambdaOf = (node: number) => 1 / Math.max(height[node - n], 1e-12);
+	const clusterParent: number[] = [-1];
+	const birth: number[] = [0];
+	const stability: number[] = [0];
+	const pointCluster = new Int32Array(n);
+	const leaves = (node: number): number[] => {
+		const result: number[] = [];
+		const stack = [node];
+		while (stack.length > 0) {
+			const current = stack.pop()!;
+			if (current < n) result.push(current);
+			else stack.push(left[current - n], right[current - n]);
+		}
+		return result;
+	};
+	const fallOut = (node: number, cluster: number, lambda: number) => {
+		for (const point of leaves(node)) {
+			pointCluster[point] = cluster;
+			stability[cluster] += lambda - birth[cluster];
+		}
+	};
+	const stack: { node: number; cluster: number }[] = [{ node: 2 * n - 2, cluster: 0 }];
+	while (stack.length > 0) {
+		const { node, cluster } = stack.pop()!;
+		const lambda = lambdaOf(node);
+		const children = [left[node - n], right[node - n]];
+		const big = children.filter((child) => size[child] >= minClusterSize);
+		if (big.length === 2) {
+			for (const child of children) {
+				const id = clusterParent.length;
+				clusterParent.push(cluster);
+				birth.push(lambda);
+				stability.push(0);
+				stability[cluster] += (lambda - birth[cluster]) * size[child];
+				stack.push({ node: child, cluster: id });
+			}
+		} else {
+			for (const child of children) {
+				if (big.includes(child)) stack.push({ node: child, cluster });
+				else fallOut(child, cluster, lambda);
+			}
+		}
+	}
+
+	// Excess of mass: keep a cluster when it is more stable than its subclusters together. Children
+	// always have higher ids than their parents, so walking ids backwards handles them first.
+	const selected = new Array<boolean>(clusterParent.length).fill(false);
+	const subtree = stability.slice();
+	const childSum = new Array<number>(clusterParent.length).fill(0);
+	const hasChildren = new Array<boolean>(clusterParent.length).fill(false);
+	for (let c = clusterParent.length - 1; c > 0; c -= 1) {
+		if (!hasChildren[c] || stability[c] >= childSum[c]) {
+			selected[c] = true;
+			subtree[c] = stability[c];
+		} else {
+			subtree[c] = childSum[c];
+		}
+		childSum[clusterParent[c]] += subtree[c];
+		hasChildren[clusterParent[c]] = true;
+	}
+	// A selected cluster wins over the selected clusters below it
+	const chosen = (c: number): number => {
+		let result = -1;
+		for (let current = c; current > 0; current = clusterParent[current]) {
+			if (selected[current]) result = current;
+		}
+		return result;
+	};
+
+	const labels = Array.from(pointCluster, (cluster) => chosen(cluster));
+	const counts = new Map<number, number>();
+	for (const label of labels) if (label >= 0) counts.set(label, (counts.get(label) ?? 0) + 1);
+	const order = Array.from(counts.keys()).sort((a, b) => counts.get(b)! - counts.get(a)! || a - b);
+	const ids = new Map(order.map((label, index) => [label, index]));
+	return labels.map((label) => ids.get(label) ?? -1);
+}
@@ -0,0 +1,32 @@
+// Discussion comments attached to items, shared by the fetch adapters and the embed stage
+
+export interface ItemComment {
+	author?: string;
+	body: string;
+	createdAt?: string;
+	reactionCount?: number;
+}
+
+// GitHub marks app accounts with type "Bot" and a [bot] suffix. Elsewhere, bots are recognized by a -bot
+// or _bot suffix (renovate-bot, gitlab-bot, ...) or by name. A plain "bot" ending is too broad, it matches
+// people like talbot.
+export function isBotAuthor(login: string | undefined, userType?: string): boolean {
+	if (userType === "Bot") return true;
+	if (!login) return false;
+	return (
+		/(\[bot\]|[-_]bot)$/i.test(login) ||
+		/^(dependabot|renovate|codecov-commenter|coveralls|netlify|vercel)$/i.test(login)
+	);
+}
+
+// Picks the most reacted-to comments, kept in discussion order
+export function selectComments(comments: ItemComment[], maxComments: number): ItemComment[] {
+	if (comments.length <= maxComments) return comments;
+	const ranked = comments
+		.map((comment, index) => ({ comment, index }))
+		.sort((a, b) => (b.comment.reactionCount ?? 0) - (a.comment.reactionCount ?? 0) || a.index - b.index)
+		.slice(0, maxComments);
+	return ranked.sort((a, b) => a.index - b.index).map(({ comment }) => comment);
+}
+
+export const byCreatedAt = (a: ItemComment, b: ItemComment) => (a.createdAt ?? "").localeCompare(b.createdAt ?? "");
@@ -0,0 +1,134 @@
+// Compact, embedding-friendly summaries of PR diffs
+
+export interface DiffSummary {
+	// Function/class context from hunk headers, e.g. "function parseRepo(repo: string)"
+	hunks: string[];
+	// Identifiers that only appear on added or only on removed lines, most frequent first
+	added: string[];
+	removed: string[];
+}
+
+export interface FilePatch {
+	path: string;
+	// Unified diff hunks, possibly missing for binary or very large files
+	patch?: string;
+}
+
+const MAX_IDENTIFIERS = 100;
+const MAX_HUNKS = 100;
+
+// Keywords and filler that say nothing about what a change is about
+export const IGNORED_IDENTIFIERS = new Set([
+	"and",
+	"async",
+	"await",
+	"break",
+	"case",
+	"catch",
+	"class",
+	"const",
+	"continue",
+	"def",
+	"default",
+	"else",
+	"export",
+	"false",
+	"for",
+	"from",
+	"func",
+	"function",
+	"if",
+	"import",
+	"let",
+	"new",
+	"nil",
+	"none",
+	"not",
+	"null",
+	"private",
+	"public",
+	"return",
+	"self",
+	"static",
+	"string",
+	"the",
+	"this",
+	"throw",
+	"true",
+	"try",
+	"type",
+	"undefined",
+	"var",
+	"void",
+	"while",
+]);
+
+const countIdentifiers = (lines: string[]): Map<string, number> => {
+	const counts = new Map<string, number>();
+	for (const line of lines) {
+		for (const match of line.matchAll(/[A-Za-z_$][A-Za-z0-9_$]{2,}/g)) {
+			const identifier = match[0];
+			if (IGNORED_IDENTIFIERS.has(identifier.toLowerCase())) continue;
+			counts.set(identifier, (counts.get(identifier) ?? 0) + 1);
+		}
+	}
+	return counts;
+};
+
+const onlyIn = (counts: Map<string, number>, other: Map<string, number>): string[] =>
+	Array.from(counts.entries())
+		.filter(([identifier]) => !other.has(identifier))
+		.sort((a, b) => b[1] - a[1])
+		.slice(0, MAX_IDENTIFIERS)
+		.map(([identifier]) => identifier);
+
+export function summarizePatches(patches: FilePatch[]): DiffSummary {
+	const hunks: string[] = [];
+	const seenHunks = new Set<string>();
+	const addedLines: string[] = [];
+	const removedLines: string[] = [];
+
+	for (const { patch } of patches) {
+		if (!patch) continue;
+		for (const line of patch.split("\n")) {
+			if (line.startsWith("@@")) {
+				const context = line.replace(/^@@[^@]*@@\s*/, "").trim();
+				if (context && !seenHunks.has(context) && hunks.length < MAX_HUNKS) {
+					seenHunks.add(context);
+					hunks.push(context);
+				}
+			} else if (line.startsWith("+") && !line.startsWith("+++")) {
+				addedLines.push(line.slice(1));
+			} else if (line.startsWith("-") && !line.startsWith("---")) {
+				removedLines.push(line.slice(1));
+			}
+		}
+	}
+
+	const addedCounts = countIdentifiers(addedLines);
+	const removedCounts = countIdentifiers(removedLines);
+	return {
+		hunks,
+		added: onlyIn(addedCounts, removedCounts),
+		removed: onlyIn(removedCounts, addedCounts),
+	};
+}
+
+// Splits a raw multi-file unified diff (git diff output) into per-file patches
+export function splitUnifiedDiff(diff: string): FilePatch[] {
+	const patches: FilePatch[] = [];
+	let current: { path: string; lines: string[] } | null = null;
+	for (const line of diff.split("\n")) {
+		const header = line.match(/^diff --git a\/(.+?) b\/(.+)$/);
+		if (header) {
+			if (current) patches.push({ path: current.path, patch: current.lines.join("\n") });
+			current = { path: header[2], lines: [] };
+			continue;
+		}
+		if (current && (current.lines.length > 0 || line.startsWith("@@"))) {
+			current.lines.push(line);
+		}
+	}
+	if (current) patches.push({ path: current.path, patch: current.lines.join("\n") });
+	return patches;
+}
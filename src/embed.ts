@@ -1,41 +1,166 @@
 import fs from "fs";
-import OpenAI from "openai";
 import path from "path";
+import { defaultCacheDir, openEmbeddingCache } from "./cache.js";
+import { type ChunkRecord, POOLINGS, type Pooling, poolVectors, splitChunks } from "./chunks.js";
+import { type CleanOptions, createBodyCleaner, parseStripPattern } from "./clean.js";
+import { type ItemComment, selectComments } from "./comments.js";
+import type { DiffSummary } from "./diff.js";
+import {
+	createEmbeddingProvider,
+	EMBEDDING_PROVIDERS,
+	type EmbeddingProvider,
+	type EmbeddingProviderName,
+	type EmbeddingProviderOptions,
+	embeddingModelName,
+	embeddingProviderId,
+	estimateCost,
+	estimateTokens,
+	requestedDelay,
+	taskPrefixes,
+} from "./embedders.js";
+import { EMBEDDING_FIELDS, type EmbeddingField, type FieldEmbeddings } from "./fields.js";
+import { MAX_ATTEMPTS, MAX_RATE_LIMIT_WAITS } from "./http.js";
+import type { ItemLink } from "./links.js";
+import { createVectorWriter, packRecord, VECTOR_ENCODINGS, type VectorEncoding, vectorStorePath } from "./vectors.js";
 
 // Shared types - exported for use by triage.ts and build.ts
 export interface Item {
 	url: string;
+	// Repo label like owner/name, set when items come from one or more forges
+	repo?: string;
 	number?: number;
 	title: string;
 	body: string | null;
 	state?: string;
 	type?: string;
+	createdAt?: string;
+	updatedAt?: string;
+	author?: string;
+	labels?: string[];
+	assignees?: string[];
+	milestone?: string;
+	commentCount?: number;
+	reactionCount?: number;
 	files?: string[];
+	diff?: DiffSummary;
+	comments?: ItemComment[];
+	links?: ItemLink[];
 }
 
 export interface EmbeddingRecord extends Item {
 	body: string; // non-null after processing
 	embedding: number[];
+	// Chunk vectors, kept with keepChunks for semantic search
+	chunks?: ChunkRecord[];
+	// Separate title, body and files vectors, embedded with fields
+	fieldEmbeddings?: FieldEmbeddings;
+	// Set when the vectors were shortened with --dimensions, search queries have to match
+	dimensions?: number;
+	// Prefix search queries need for the vectors to match, see taskPrefixes
+	queryPrefix?: string;
+	// Provider and model that made the vectors, search queries have to be embedded with the same model
+	provider?: EmbeddingProviderName;
+	model?: string;
+	baseUrl?: string;
 }
 
-export interface EmbedOptions {
+export interface EmbedOptions extends EmbeddingProviderOptions, CleanOptions {
 	input: string;
 	output: string;
-	model: string;
+	// Most items and estimated tokens per request, lowered to the provider's limits
 	batchSize: number;
+	batchTokens?: number;
+	// Requests in flight at once
+	concurrency: number;
 	maxChars: number;
 	bodyChars: number;
-	resume: boolean;
-	localModel?: string;
+	// Comments added to the embedding text, on top of maxChars
+	maxComments: number;
+	commentChars: number;
+	// Comments kept for the viewer's sidebar, the most reacted-to ones like for the embedding text
+	sidebarComments: number;
+	// Directory of the embedding cache, nothing is cached when unset
+	cacheDir?: string;
+	// Print the embedding input of every item instead of embedding
+	showText?: boolean;
+	// Report the items, tokens and cost a run would embed instead of embedding
+	dryRun?: boolean;
+	// Split inputs longer than chunkChars into overlapping chunks instead of truncating them at maxChars,
+	// at most maxChunks per item, and pool the chunk vectors
+	chunkChars?: number;
+	chunkOverlap: number;
+	maxChunks: number;
+	pooling: Pooling;
+	keepChunks: boolean;
+	// Also embed title, body and file paths on their own, for --weights in build
+	fields: boolean;
+	// Store vectors in a binary file next to the output instead of inline as JSON
+	vectorEncoding?: VectorEncoding;
 }
 
 const sleep = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
 
-const buildText = (title: string, body: string | null, files: string[] | undefined, maxChars: number): string => {
+// Files kept when a long file list has to make room for the body
+const MIN_FILES = 20;
+
+const buildText = (
+	title: string,
+	body: string | null,
+	files: string[] | undefined,
+	diff: DiffSummary | undefined,
+	maxChars: number,
+): string => {
 	const bodyText = (body || "").replace(/\r\n/g, "\n").trim();
-	const filesText = files && files.length > 0 ? `\n\nModified files:\n${files.join("\n")}` : "";
-	const combined = `${title}\n\n${bodyText}${filesText}`.trim();
-	return combined.slice(0, maxChars);
+	if (!diff) {
+		const filesText = files && files.length > 0 ? `\n\nModified files:\n${files.join("\n")}` : "";
+		const combined = `${title}\n\n${bodyText}${filesText}`.trim();
+		return combined.slice(0, maxChars);
+	}
+
+	const fileList = [...(files ?? [])];
+	const hunks = [...diff.hunks];
+	const added = [...diff.added];
+	const removed = [...diff.removed];
+	let trimmedBody = bodyText;
+	const render = () =>
+		[
+			`${title}\n\n${trimmedBody}`.trim(),
+			fileList.length > 0 ? `Modified files:\n${fileList.join("\n")}` : "",
+			hunks.length > 0 ? `Changed code:\n${hunks.join("\n")}` : "",
+			added.length > 0 ? `Added identifiers: ${added.join(", ")}` : "",
+			removed.length > 0 ? `Removed identifiers: ${removed.join(", ")}` : "",
+		]
+			.filter(Boolean)
+			.join("\n\n");
+
+	// Over maxChars, the least useful parts go first: removed identifiers, added identifiers, hunk
+	// context, the tail of a long file list, the end of the body and finally the remaining files.
+	// Lists are cut at entry boundaries, least frequent or last entries first.
+	let over = render().length - maxChars;
+	const cutList = (list: string[], keep: number) => {
+		while (over > 0 && list.length > keep) {
+			over -= list.pop()!.length + 2;
+		}
+		over = render().length - maxChars;
+	};
+	cutList(removed, 0);
+	cutList(added, 0);
+	cutList(hunks, 0);
+	cutList(fileList, MIN_FILES);
+	if (over > 0) {
+		trimmedBody = trimmedBody.slice(0, Math.max(0, trimmedBody.length - over)).trim();
+		over = render().length - maxChars;
+	}
+	cutList(fileList, 0);
+	return render().slice(0, maxChars);
+};
+
+const buildCommentsText = (comments: ItemComment[] | undefined, maxComments: number, commentChars: number): string => {
+	if (!comments || comments.length === 0 || maxComments <= 0 || commentChars <= 0) return "";
+	const text = selectComments(comments, maxComments)
+		.map((comment) => `${comment.author ?? "unknown"}: ${comment.body.replace(/\r\n/g, "\n").trim()}`)
+		.join("\n\n");
+	return `Comments:\n${text}`.slice(0, commentChars);
 };
 
 const buildSnippet = (body: string | null, bodyChars: number): string => {
@@ -43,147 +168,374 @@ const buildSnippet = (body: string | null, bodyChars: number): string => {
 	return body.replace(/\s+/g, " ").trim().slice(0, bodyChars);
 };
 
-export async function embed(options: EmbedOptions): Promise<void> {
-	const useLocal = !process.env.OPENAI_API_KEY;
-	if (useLocal && !options.localModel) {
-		console.error("OPENAI_API_KEY is required, or --local-model must be specified");
-		process.exit(1);
+// The exact text sent to the model, also the embedding cache key. body is the cleaned body.
+const embeddingText = (item: Item, body: string, maxChars: number, options: EmbedOptions): string => {
+	const title = item.title || "";
+	const commentsText = buildCommentsText(item.comments, options.maxComments, options.commentChars);
+	const text = [buildText(title, body, item.files, item.diff, maxChars), commentsText].filter(Boolean).join("\n\n");
+	return text || title || item.url;
+};
+
+// Field texts, empty fields are left out. The body field carries the comments, files are the paths only.
+const fieldTexts = (item: Item, body: string, options: EmbedOptions): Partial<Record<EmbeddingField, string>> => {
+	const commentsText = buildCommentsText(item.comments, options.maxComments, options.commentChars);
+	const fields: Partial<Record<EmbeddingField, string>> = {
+		title: (item.title || "").trim(),
+		body: [body.slice(0, options.maxChars), commentsText].filter(Boolean).join("\n\n"),
+		files: (item.files ?? []).join("\n").slice(0, options.maxChars),
+	};
+	for (const field of EMBEDDING_FIELDS) {
+		if (!fields[field]) delete fields[field];
 	}
+	return fields;
+};
+
+// The texts embedded for an item: one, or with chunking the chunks of the untruncated text, plus the
+// title on its own for title pooling and the field texts with fields
+interface EmbeddingParts {
+	chunks: string[];
+	title?: string;
+	fields?: Partial<Record<EmbeddingField, string>>;
+}
+
+const embeddingParts = (item: Item, body: string, options: EmbedOptions): EmbeddingParts => {
+	const fields = options.fields ? fieldTexts(item, body, options) : undefined;
+	if (!options.chunkChars) return { chunks: [embeddingText(item, body, options.maxChars, options)], fields };
+	// Enough text for maxChunks chunks, each starting chunkOverlap chars before the end of the previous one
+	const covered = options.chunkChars + (options.maxChunks - 1) * (options.chunkChars - options.chunkOverlap);
+	const text = embeddingText(item, body, covered, options);
+	const title = item.title || "";
+	// Later chunks repeat the title, so each passage is embedded in context
+	const chunks = splitChunks(text, options.chunkChars, options.chunkOverlap)
+		.slice(0, options.maxChunks)
+		.map((chunk, index) => (index > 0 && title ? `${title}\n\n${chunk}` : chunk));
+	return { chunks, title: chunks.length > 1 && options.pooling === "title" && title ? title : undefined, fields };
+};
+
+const partTexts = (parts: EmbeddingParts) => [
+	...(parts.title !== undefined ? [parts.title] : []),
+	...parts.chunks,
+	...Object.values(parts.fields ?? {}),
+];
+
+// body is the cleaned body, so template text neither shows in the viewer nor labels clusters
+const recordMeta = (item: Item, body: string, options: EmbedOptions): Omit<EmbeddingRecord, "embedding"> => ({
+	url: item.url,
+	repo: item.repo,
+	number: item.number,
+	title: item.title || "",
+	body: buildSnippet(body, options.bodyChars),
+	state: item.state,
+	type: item.type,
+	createdAt: item.createdAt,
+	updatedAt: item.updatedAt,
+	author: item.author,
+	labels: item.labels,
+	assignees: item.assignees,
+	milestone: item.milestone,
+	commentCount: item.commentCount,
+	reactionCount: item.reactionCount,
+	files: item.files,
+	comments: item.comments
+		? selectComments(item.comments, options.sidebarComments).map((comment) => ({
+				...comment,
+				body: buildSnippet(comment.body, options.bodyChars),
+			}))
+		: undefined,
+	links: item.links,
+	dimensions: options.dimensions,
+	queryPrefix: taskPrefixes(options).query || undefined,
+	provider: options.provider,
+	model: embeddingModelName(options),
+	baseUrl: options.baseUrl,
+});
+
+const LENGTH_BUCKETS = [500, 1000, 2000, 4000, 8000, 16000];
+
+// Reports what a run would embed and cost, without calling the provider
+const printDryRun = (
+	inputs: { item: Item; body: string; parts: EmbeddingParts }[],
+	missing: number[],
+	pending: string[],
+	options: EmbedOptions,
+) => {
+	const tokens = pending.reduce((sum, text) => sum + estimateTokens(text), 0);
+	const cost = estimateCost(options, tokens);
+	const pendingItems = inputs.filter((_, index) => missing[index] > 0);
+	console.log(
+		`Items: ${inputs.length} (${pendingItems.length} to embed, ${inputs.length - pendingItems.length} cached)`,
+	);
+	console.log(`Texts to embed: ${pending.length}`);
+	console.log(`Estimated tokens: ${tokens.toLocaleString("en-US")}`);
+	const model = `${options.provider} ${embeddingModelName(options)}`;
+	const dollars = cost === null ? "" : cost > 0 && cost < 0.01 ? "< $0.01" : `$${cost.toFixed(2)}`;
+	console.log(`Estimated cost: ${cost === null ? `unknown for ${model}` : `${dollars} with ${model}`}`);
 
-	if (useLocal) {
-		console.log(`Using local model: ${options.localModel}`);
+	// Items cut short, at maxChars or after maxChunks chunks
+	const truncated = pendingItems.filter(({ item, body }) => {
+		const full = embeddingText(item, body, Number.POSITIVE_INFINITY, options);
+		if (options.chunkChars) {
+			return splitChunks(full, options.chunkChars, options.chunkOverlap).length > options.maxChunks;
+		}
+		return full !== embeddingText(item, body, options.maxChars, options);
+	}).length;
+	const limit = options.chunkChars
+		? `${options.maxChunks} chunks of ${options.chunkChars} chars`
+		: `${options.maxChars} chars`;
+	console.log(`Truncated at ${limit}: ${truncated} of ${pendingItems.length} items to embed`);
+
+	const lengths = pendingItems.map(({ parts }) => parts.chunks.reduce((sum, chunk) => sum + chunk.length, 0));
+	const counts = new Array<number>(LENGTH_BUCKETS.length + 1).fill(0);
+	for (const length of lengths) {
+		const bucket = LENGTH_BUCKETS.findIndex((max) => length < max);
+		counts[bucket === -1 ? LENGTH_BUCKETS.length : bucket]++;
 	}
+	const largest = Math.max(1, ...counts);
+	console.log("Input length (chars) of items to embed:");
+	counts.forEach((count, i) => {
+		const label = i < LENGTH_BUCKETS.length ? `< ${LENGTH_BUCKETS[i]}` : `>= ${LENGTH_BUCKETS[i - 1]}`;
+		console.log(
+			`  ${label.padStart(8)}  ${String(count).padStart(6)}  ${"#".repeat(Math.round((count / largest) * 40))}`,
+		);
+	});
+};
 
+export async function embed(options: EmbedOptions): Promise<void> {
 	const inputPath = path.resolve(options.input);
 	const outputPath = path.resolve(options.output);
 
-	const items: Item[] = JSON.parse(fs.readFileSync(inputPath, "utf8"));
+	const items: Item[] = JSON.parse(fs.readFileSync(inputPath, "utf8")).filter((item: Item) => item?.url);
 
-	const existing = new Map<string, EmbeddingRecord>();
-	if (options.resume && fs.existsSync(outputPath)) {
-		const lines = fs.readFileSync(outputPath, "utf8").split("\n").filter(Boolean);
-		for (const line of lines) {
-			try {
-				const item: EmbeddingRecord = JSON.parse(line);
-				if (item.url) existing.set(item.url, item);
-			} catch {
-				// skip invalid lines
+	const cleaner = createBodyCleaner(items, options);
+	for (const [repo, lines] of cleaner.boilerplate) {
+		const label = repo ? `[${repo}] ` : "";
+		console.log(
+			`${label}Stripping ${lines.size} boilerplate lines found in more than ${options.boilerplateThreshold}% of items`,
+		);
+	}
+	const inputs = items.map((item) => {
+		const body = cleaner.clean(item);
+		return { item, body, parts: embeddingParts(item, body, options) };
+	});
+
+	if (options.showText) {
+		for (const [repo, lines] of cleaner.boilerplate) {
+			console.log(`\n===== Boilerplate lines${repo ? ` of ${repo}` : ""}\n${Array.from(lines).join("\n")}`);
+		}
+		for (const { item, parts } of inputs) {
+			const ref = `${item.repo ?? ""}${item.number !== undefined ? `#${item.number}` : ""}`;
+			console.log(`\n===== ${ref ? `${ref} ` : ""}${item.url}`);
+			if (parts.chunks.length === 1) {
+				console.log(parts.chunks[0]);
+			} else {
+				parts.chunks.forEach((chunk, index) => {
+					console.log(`----- chunk ${index + 1}/${parts.chunks.length}\n${chunk}`);
+				});
+			}
+			for (const [field, text] of Object.entries(parts.fields ?? {})) {
+				console.log(`----- ${field}\n${text}`);
 			}
 		}
+		return;
 	}
 
-	let client: OpenAI | null = null;
-	let llamaContext: any = null;
+	const cache = options.cacheDir ? openEmbeddingCache(options.cacheDir, embeddingProviderId(options)) : null;
 
-	if (useLocal) {
-		try {
-			const { getLlama } = await import("node-llama-cpp");
-			const llama = await getLlama();
-			const model = await llama.loadModel({
-				modelPath: options.localModel!,
-			});
-			llamaContext = await model.createEmbeddingContext();
-		} catch (e: any) {
-			if (e?.code === "ERR_MODULE_NOT_FOUND" || e?.message?.includes("Cannot find")) {
-				console.error("node-llama-cpp is not installed. Install it with:");
-				console.error("  npm install node-llama-cpp");
-				console.error("\nNote: This package is optional and only needed for local embeddings.");
-			} else {
-				console.error("Failed to initialize node-llama-cpp:", e);
+	// Texts that are cached are not embedded again, so only new and edited items cost anything. The
+	// output is rewritten from the items, so metadata like state is always current and removed items
+	// are dropped. Records are written in item order, whichever batch finishes first.
+	const fresh = new Map<string, number[]>();
+	const vectorOf = (text: string) => fresh.get(text) ?? cache?.get(text);
+	// Items waiting for each text that still has to be embedded, and the number of texts each item waits for
+	const waiting = new Map<string, number[]>();
+	// Length of the vectors in the output, new ones have to match the cached ones
+	let dimensions: number | undefined;
+	const missing = inputs.map(({ item, parts }, index) => {
+		let count = 0;
+		for (const text of new Set(partTexts(parts))) {
+			const vector = cache?.get(text);
+			if (vector) {
+				dimensions ??= vector.length;
+				cache?.use(text, item.url);
+				continue;
 			}
-			process.exit(1);
+			count++;
+			const indexes = waiting.get(text);
+			if (indexes) indexes.push(index);
+			else waiting.set(text, [index]);
 		}
-	} else {
-		client = new OpenAI({ apiKey: process.env.OPENAI_API_KEY });
+		return count;
+	});
+
+	if (options.dryRun) {
+		printDryRun(inputs, missing, Array.from(waiting.keys()), options);
+		return;
+	}
+
+	let provider: EmbeddingProvider;
+	try {
+		provider = await createEmbeddingProvider(options);
+	} catch (error) {
+		console.error((error as Error).message);
+		process.exit(1);
 	}
+	console.log(
+		`Embedding with ${provider.name} model ${provider.model}${options.dimensions ? ` at ${options.dimensions} dimensions` : ""}`,
+	);
 
 	const outputDir = path.dirname(outputPath);
 	fs.mkdirSync(outputDir, { recursive: true });
-	const outputStream = fs.createWriteStream(outputPath, { flags: options.resume ? "a" : "w" });
+	// Written next to the output and renamed once every batch succeeded, so a failed run leaves the previous
+	// embeddings file as it was
+	const tempPath = `${outputPath}.tmp`;
+	const vectorStore = vectorStorePath(outputPath);
+	const outputStream = fs.createWriteStream(tempPath, { flags: "w" });
+	const vectorWriter = options.vectorEncoding
+		? createVectorWriter(`${vectorStore}.tmp`, options.vectorEncoding)
+		: null;
 
-	const pending = items.filter((item) => item?.url && !existing.has(item.url));
-	const total = pending.length;
-	let processed = 0;
-	const skipped = items.length - pending.length;
+	const records: (EmbeddingRecord | undefined)[] = new Array(inputs.length);
+	const assemble = (index: number) => {
+		const { item, body, parts } = inputs[index];
+		const chunkVectors = parts.chunks.map((chunk) => vectorOf(chunk)!);
+		const titleVector = parts.title !== undefined ? vectorOf(parts.title) : undefined;
+		records[index] = {
+			...recordMeta(item, body, options),
+			embedding: poolVectors(chunkVectors, options.pooling, titleVector),
+			chunks:
+				options.keepChunks && parts.chunks.length > 1
+					? parts.chunks.map((text, i) => ({ text, embedding: chunkVectors[i] }))
+					: undefined,
+			fieldEmbeddings: parts.fields
+				? Object.fromEntries(Object.entries(parts.fields).map(([field, text]) => [field, vectorOf(text)!]))
+				: undefined,
+		};
+	};
+	let written = 0;
+	const writeReady = () => {
+		while (written < records.length && records[written]) {
+			const record = records[written]!;
+			outputStream.write(`${JSON.stringify(vectorWriter ? packRecord(record, vectorWriter) : record)}\n`);
+			records[written] = undefined;
+			written++;
+		}
+	};
+	missing.forEach((count, index) => {
+		if (count === 0) assemble(index);
+	});
+	const cached = missing.filter((count) => count === 0).length;
+	writeReady();
 
-	let batchInputs: string[] = [];
-	let batchMeta: Omit<EmbeddingRecord, "embedding">[] = [];
+	// Batches are cut by text count and estimated tokens, whichever limit is hit first
+	const pending = Array.from(waiting.keys());
+	const batchSize = Math.min(options.batchSize, provider.maxBatchSize);
+	const batchTokens = Math.min(options.batchTokens ?? Number.POSITIVE_INFINITY, provider.maxBatchTokens);
+	const batches: string[][] = [];
+	let batch: string[] = [];
+	let tokens = 0;
+	for (const text of pending) {
+		const textTokens = estimateTokens(text);
+		if (batch.length > 0 && (batch.length >= batchSize || tokens + textTokens > batchTokens)) {
+			batches.push(batch);
+			batch = [];
+			tokens = 0;
+		}
+		batch.push(text);
+		tokens += textTokens;
+	}
+	if (batch.length > 0) batches.push(batch);
 
-	const createEmbeddings = async (inputs: string[], attempt = 1): Promise<number[][]> => {
+	// A rate limit hit by one request pauses all of them
+	let pausedUntil = 0;
+	// Set when a batch failed for good. The other workers stop taking batches and retrying instead of paying
+	// for a run that is thrown away.
+	let failed = false;
+	const createEmbeddings = async (texts: string[], attempt = 1, waits = 0): Promise<number[][]> => {
+		const pause = pausedUntil - Date.now();
+		if (pause > 0) await sleep(pause);
 		try {
-			if (useLocal && llamaContext) {
-				// node-llama-cpp processes one by one
-				const results: number[][] = [];
-				for (const input of inputs) {
-					const embedding = await llamaContext.getEmbeddingFor(input);
-					results.push(Array.from(embedding.vector));
-				}
-				return results;
-			} else if (client) {
-				const response = await client.embeddings.create({
-					model: options.model,
-					input: inputs,
-				});
-				return response.data.map((item) => item.embedding);
-			}
-			return [];
+			return await provider.embed(texts, "document");
 		} catch (error) {
-			if (attempt >= 5) throw error;
-			const delay = 1000 * attempt;
+			if (failed) throw error;
+			const requested = requestedDelay(error);
+			if (requested !== null) {
+				if (waits >= MAX_RATE_LIMIT_WAITS) throw error;
+				pausedUntil = Math.max(pausedUntil, Date.now() + requested);
+				console.warn(`Embedding rate limit hit, waiting ${Math.ceil(requested / 1000)}s before retrying`);
+				return createEmbeddings(texts, attempt, waits + 1);
+			}
+			if (attempt >= MAX_ATTEMPTS) throw error;
+			const delay = 1000 * 2 ** (attempt - 1);
 			console.warn(`Embedding request failed, retrying in ${delay}ms`, (error as Error).message);
 			await sleep(delay);
-			return createEmbeddings(inputs, attempt + 1);
+			return createEmbeddings(texts, attempt + 1, waits);
 		}
 	};
 
-	const flushBatch = async () => {
-		if (!batchInputs.length) return;
-		const embeddings = await createEmbeddings(batchInputs);
-		for (let i = 0; i < embeddings.length; i += 1) {
-			const meta = batchMeta[i];
-			const record: EmbeddingRecord = {
-				url: meta.url,
-				number: meta.number,
-				title: meta.title,
-				body: meta.body,
-				state: meta.state,
-				type: meta.type,
-				files: meta.files,
-				embedding: embeddings[i],
-			};
-			outputStream.write(`${JSON.stringify(record)}\n`);
-			processed += 1;
-			if (processed % 50 === 0 || processed === total) {
-				console.log(`Embedded ${processed}/${total} items`);
+	const total = pending.length;
+	let processed = 0;
+	let nextBatch = 0;
+	const worker = async () => {
+		while (!failed && nextBatch < batches.length) {
+			const texts = batches[nextBatch++];
+			let embeddings: number[][];
+			try {
+				embeddings = await createEmbeddings(texts);
+				dimensions ??= embeddings[0].length;
+				if (embeddings[0].length !== dimensions) {
+					throw new Error(
+						`The provider returned vectors of ${embeddings[0].length} dimensions, the cached ones have ${dimensions}`,
+					);
+				}
+			} catch (error) {
+				failed = true;
+				throw error;
+			}
+			// Batches that finish after another failed are still cached, a new run doesn't pay for them again
+			const ready: number[] = [];
+			texts.forEach((text, i) => {
+				const indexes = waiting.get(text)!;
+				cache?.put(text, inputs[indexes[0]].item.url, embeddings[i]);
+				fresh.set(text, embeddings[i]);
+				for (const index of indexes) {
+					missing[index]--;
+					if (missing[index] === 0) ready.push(index);
+				}
+			});
+			for (const index of ready) assemble(index);
+			// Vectors are kept until every item using them is assembled
+			for (const text of texts) {
+				if (waiting.get(text)!.every((index) => missing[index] === 0)) fresh.delete(text);
+			}
+			writeReady();
+			const before = processed;
+			processed += texts.length;
+			if (Math.floor(before / 50) !== Math.floor(processed / 50) || processed === total) {
+				console.log(`Embedded ${processed}/${total} texts`);
 			}
 		}
-		batchInputs = [];
-		batchMeta = [];
 	};
-
-	for (const item of pending) {
-		const title = item.title || "";
-		const body = item.body || "";
-		const text = buildText(title, body, item.files, options.maxChars);
-		batchInputs.push(text || title || item.url);
-		batchMeta.push({
-			url: item.url,
-			number: item.number,
-			title,
-			body: buildSnippet(body, options.bodyChars),
-			state: item.state,
-			type: item.type,
-			files: item.files,
-		});
-		if (batchInputs.length >= options.batchSize) {
-			await flushBatch();
-		}
+	const concurrency = Math.max(1, Math.min(options.concurrency, provider.maxConcurrency, batches.length));
+	// Every worker is done before the temp files are removed, none writes to them afterwards
+	const results = await Promise.allSettled(Array.from({ length: concurrency }, worker));
+	const rejected = results.find((result): result is PromiseRejectedResult => result.status === "rejected");
+	if (rejected) {
+		outputStream.destroy();
+		vectorWriter?.close();
+		fs.rmSync(tempPath, { force: true });
+		fs.rmSync(`${vectorStore}.tmp`, { force: true });
+		throw rejected.reason;
 	}
+	await new Promise((resolve) => outputStream.end(resolve));
+	vectorWriter?.close();
+	fs.renameSync(tempPath, outputPath);
+	if (vectorWriter) fs.renameSync(`${vectorStore}.tmp`, vectorStore);
 
-	await flushBatch();
-	outputStream.end();
-
-	console.log(`Done. Embedded ${processed}/${total} PRs, skipped ${skipped}.`);
+	if (cache) {
+		const pruned = cache.prune();
+		console.log(`Embedding cache ${cache.path}: ${processed} texts embedded, ${pruned} stale removed`);
+	}
+	console.log(`Done. Embedded ${processed} texts, ${cached}/${inputs.length} items entirely from the cache.`);
 }
 
 // CLI entry point
@@ -192,33 +544,122 @@ if (process.argv[1]?.endsWith("embed.js") || process.argv[1]?.endsWith("embed.ts
 	const options: EmbedOptions = {
 		input: "prs.json",
 		output: "embeddings.jsonl",
-		model: "text-embedding-3-small",
+		provider: "openai",
 		batchSize: 100,
+		concurrency: 4,
 		maxChars: 4000,
 		bodyChars: 2000,
-		resume: true,
+		maxComments: 5,
+		commentChars: 2000,
+		sidebarComments: 5,
+		cacheDir: defaultCacheDir(),
+		boilerplateThreshold: 0,
+		stripPatterns: [],
+		chunkOverlap: 200,
+		maxChunks: 8,
+		pooling: "mean",
+		keepChunks: false,
+		fields: false,
 	};
 
+	let providerSet = false;
 	for (let i = 0; i < args.length; i += 1) {
 		const arg = args[i];
 		if (arg === "--input") {
 			options.input = args[++i];
+		} else if (arg === "--provider") {
+			const val = args[++i] as EmbeddingProviderName;
+			if (!EMBEDDING_PROVIDERS.includes(val)) {
+				console.error(`--provider must be ${EMBEDDING_PROVIDERS.join(", ")}`);
+				process.exit(1);
+			}
+			options.provider = val;
+			providerSet = true;
+		} else if (arg === "--base-url") {
+			options.baseUrl = args[++i];
+		} else if (arg === "--dimensions") {
+			options.dimensions = Number(args[++i]);
+		} else if (arg === "--document-prefix") {
+			options.documentPrefix = args[++i];
+		} else if (arg === "--query-prefix") {
+			options.queryPrefix = args[++i];
+		} else if (arg === "--context-size") {
+			options.contextSize = Number(args[++i]);
+		} else if (arg === "--threads") {
+			options.threads = Number(args[++i]);
+		} else if (arg === "--sequences") {
+			options.sequences = Number(args[++i]);
 		} else if (arg === "--output") {
 			options.output = args[++i];
 		} else if (arg === "--model") {
 			options.model = args[++i];
 		} else if (arg === "--batch") {
 			options.batchSize = Number(args[++i]);
+		} else if (arg === "--batch-tokens") {
+			options.batchTokens = Number(args[++i]);
+		} else if (arg === "--concurrency") {
+			options.concurrency = Number(args[++i]);
 		} else if (arg === "--max-chars") {
 			options.maxChars = Number(args[++i]);
 		} else if (arg === "--body-chars") {
 			options.bodyChars = Number(args[++i]);
-		} else if (arg === "--no-resume") {
-			options.resume = false;
+		} else if (arg === "--max-comments") {
+			options.maxComments = Number(args[++i]);
+		} else if (arg === "--comment-chars") {
+			options.commentChars = Number(args[++i]);
+		} else if (arg === "--sidebar-comments") {
+			options.sidebarComments = Number(args[++i]);
+		} else if (arg === "--cache") {
+			options.cacheDir = args[++i];
+		} else if (arg === "--no-cache") {
+			options.cacheDir = undefined;
 		} else if (arg === "--local-model") {
 			options.localModel = args[++i];
+		} else if (arg === "--boilerplate-threshold") {
+			options.boilerplateThreshold = Number(args[++i]);
+		} else if (arg === "--strip") {
+			try {
+				options.stripPatterns.push(parseStripPattern(args[++i]));
+			} catch (error) {
+				console.error((error as Error).message);
+				process.exit(1);
+			}
+		} else if (arg === "--show-text") {
+			options.showText = true;
+		} else if (arg === "--dry-run") {
+			options.dryRun = true;
+		} else if (arg === "--chunk-chars") {
+			options.chunkChars = Number(args[++i]);
+		} else if (arg === "--chunk-overlap") {
+			options.chunkOverlap = Number(args[++i]);
+		} else if (arg === "--max-chunks") {
+			options.maxChunks = Number(args[++i]);
+		} else if (arg === "--pooling") {
+			const val = args[++i] as Pooling;
+			if (!POOLINGS.includes(val)) {
+				console.error(`--pooling must be ${POOLINGS.join(", ")}`);
+				process.exit(1);
+			}
+			options.pooling = val;
+		} else if (arg === "--keep-chunks") {
+			options.keepChunks = true;
+		} else if (arg === "--fields") {
+			options.fields = true;
+		} else if (arg === "--vectors") {
+			const val = args[++i] as VectorEncoding;
+			if (!VECTOR_ENCODINGS.includes(val)) {
+				console.error(`--vectors must be ${VECTOR_ENCODINGS.join(", ")}`);
+				process.exit(1);
+			}
+			options.vectorEncoding = val;
 		}
 	}
+	// A GGUF model on its own means local embeddings
+	if (!providerSet && options.localModel) options.provider = "local";
+	if (options.chunkChars && options.chunkOverlap >= options.chunkChars) {
+		console.error("--chunk-overlap must be smaller than --chunk-chars");
+		process.exit(1);
+	}
 
 	embed(options);
 }
@@ -0,0 +1,421 @@
+import { createHash } from "crypto";
+import fs from "fs";
+import type { LlamaEmbeddingContext, LlamaModel } from "node-llama-cpp";
+import OpenAI from "openai";
+import path from "path";
+import { createHttpClient } from "./http.js";
+
+// Embedding backends. Each one knows its request format, batch limit and how to tell documents from
+// search queries, embed() only deals with batches of texts.
+
+export type EmbeddingProviderName = "openai" | "ollama" | "voyage" | "cohere" | "local";
+
+export const EMBEDDING_PROVIDERS: EmbeddingProviderName[] = ["openai", "ollama", "voyage", "cohere", "local"];
+
+// Items are embedded as documents, semantic search text as queries. Providers without the
+// distinction ignore it.
+export type InputType = "document" | "query";
+
+export interface EmbeddingProvider {
+	name: EmbeddingProviderName;
+	model: string;
+	// Identifies the provider and model in the embedding cache, vectors of different ones don't mix
+	id: string;
+	// Most inputs and estimated tokens the API accepts in one request
+	maxBatchSize: number;
+	maxBatchTokens: number;
+	// Requests to run at once, 1 for backends that process one request at a time anyway
+	maxConcurrency: number;
+	embed(inputs: string[], inputType: InputType): Promise<number[][]>;
+}
+
+// What the provider factories return, createEmbeddingProvider adds the cache id and task prefixes
+type ProviderClient = Omit<EmbeddingProvider, "id">;
+
+export interface EmbeddingProviderOptions {
+	provider: EmbeddingProviderName;
+	// Provider default when not set
+	model?: string;
+	// For OpenAI-compatible servers like vLLM and LM Studio, or a remote Ollama
+	baseUrl?: string;
+	// GGUF file for the local provider
+	localModel?: string;
+	// Shorter vectors, requested from APIs that support it and truncated otherwise
+	dimensions?: number;
+	// Task prefixes for models that expect them, like "search_document: " for nomic-embed. Defaults
+	// depend on the model for Ollama and local models.
+	documentPrefix?: string;
+	queryPrefix?: string;
+	// llama.cpp settings of the local provider: context size in tokens (default: the model's), CPU
+	// threads, and contexts embedding in parallel
+	contextSize?: number;
+	threads?: number;
+	sequences?: number;
+}
+
+export interface TaskPrefixes {
+	document: string;
+	query: string;
+}
+
+// Prefixes the model cards of open embedding models ask for. Hosted APIs take the input type as a
+// parameter instead.
+const MODEL_PREFIXES: { pattern: RegExp; prefixes: TaskPrefixes }[] = [
+	{ pattern: /nomic-embed/i, prefixes: { document: "search_document: ", query: "search_query: " } },
+	{ pattern: /(^|[^a-z])e5-/i, prefixes: { document: "passage: ", query: "query: " } },
+	{
+		pattern: /bge-(small|base|large)-en|mxbai-embed|arctic-embed/i,
+		prefixes: { document: "", query: "Represent this sentence for searching relevant passages: " },
+	},
+];
+
+export function taskPrefixes(options: EmbeddingProviderOptions): TaskPrefixes {
+	const model = embeddingModelName(options);
+	const defaults =
+		options.provider === "local" || options.provider === "ollama"
+			? MODEL_PREFIXES.find(({ pattern }) => pattern.test(model))?.prefixes
+			: undefined;
+	return {
+		document: options.documentPrefix ?? defaults?.document ?? "",
+		query: options.queryPrefix ?? defaults?.query ?? "",
+	};
+}
+
+const DEFAULT_MODELS: Record<Exclude<EmbeddingProviderName, "local">, string> = {
+	openai: "text-embedding-3-small",
+	ollama: "nomic-embed-text",
+	voyage: "voyage-3.5",
+	cohere: "embed-v4.0",
+};
+
+// Rough token count for batching. English prose is about 4 characters per token, code and other scripts
+// less, so this errs on the high side.
+export function estimateTokens(text: string): number {
+	return Math.ceil(text.length / 3);
+}
+
+// Matryoshka-trained models keep most of their quality in the first dimensions, so a prefix of the vector,
+// normalized again, is a smaller embedding of the same text
+export function truncateVector(vector: number[], dimensions: number): number[] {
+	if (vector.length < dimensions) {
+		throw new Error(`The model returns ${vector.length} dimensions, fewer than --dimensions ${dimensions}`);
+	}
+	const prefix = vector.slice(0, dimensions);
+	const norm = Math.sqrt(prefix.reduce((sum, value) => sum + value * value, 0)) || 1;
+	return prefix.map((value) => value / norm);
+}
+
+// Parses durations like "1s", "250ms" or "6m0s" from OpenAI's x-ratelimit-reset-* headers
+const parseDuration = (value: string): number | null => {
+	let total = 0;
+	let matched = false;
+	for (const [, amount, unit] of value.matchAll(/([\d.]+)(ms|s|m|h)/g)) {
+		matched = true;
+		total += Number(amount) * { ms: 1, s: 1000, m: 60_000, h: 3_600_000 }[unit as "ms" | "s" | "m" | "h"];
+	}
+	return matched ? total : null;
+};
+
+// How long a rate-limited request asks to wait, from Retry-After or the rate limit reset headers. Null if
+// the error is not a rate limit. The HTTP client based providers wait these out themselves.
+export function requestedDelay(error: any): number | null {
+	// An exhausted quota won't recover by waiting
+	if (error?.status !== 429 || error?.code === "insufficient_quota") return null;
+	const headers: Record<string, string> = error.headers ?? {};
+	const retryAfterMs = Number(headers["retry-after-ms"]);
+	if (retryAfterMs > 0) return retryAfterMs;
+	const retryAfter = headers["retry-after"];
+	if (retryAfter) {
+		const seconds = Number(retryAfter);
+		if (!Number.isNaN(seconds)) return seconds * 1000;
+		const date = Date.parse(retryAfter);
+		if (!Number.isNaN(date)) return Math.max(0, date - Date.now());
+	}
+	const resets = [headers["x-ratelimit-reset-requests"], headers["x-ratelimit-reset-tokens"]]
+		.map((value) => (value ? parseDuration(value) : null))
+		.filter((value): value is number => value !== null);
+	return resets.length > 0 ? Math.max(...resets) + 250 : 60_000;
+}
+
+const requireKey = (name: string, ...variables: string[]): string => {
+	for (const variable of variables) {
+		const value = process.env[variable];
+		if (value) return value;
+	}
+	throw new Error(`${variables.join(" or ")} is required for the ${name} embedding provider`);
+};
+
+function createOpenAiProvider(model: string, baseUrl?: string, dimensions?: number): ProviderClient {
+	// Local OpenAI-compatible servers usually don't check the key
+	const apiKey = baseUrl ? (process.env.OPENAI_API_KEY ?? "none") : requireKey("openai", "OPENAI_API_KEY");
+	// Retries are left to embed(), which pauses every request in flight on a rate limit
+	const client = new OpenAI({ apiKey, baseURL: baseUrl, maxRetries: 0 });
+	return {
+		name: "openai",
+		model,
+		maxBatchSize: 2048,
+		// The API allows 300k tokens per request, estimates are rough
+		maxBatchTokens: 250_000,
+		maxConcurrency: 8,
+		embed: async (inputs) => {
+			// The client asks for base64 by default and decodes whatever comes back, which garbles the float
+			// arrays of compatible servers that ignore the format
+			const response = await client.embeddings.create({
+				model,
+				input: inputs,
+				dimensions,
+				encoding_format: "float",
+			});
+			return response.data.map((item) => item.embedding);
+		},
+	};
+}
+
+// Ollama's native endpoint, which takes a batch of inputs unlike the older /api/embeddings
+function createOllamaProvider(model: string, baseUrl = "http://localhost:11434"): ProviderClient {
+	const http = createHttpClient({ baseUrl, name: "Ollama", headers: { "Content-Type": "application/json" } });
+	return {
+		name: "ollama",
+		model,
+		maxBatchSize: 512,
+		maxBatchTokens: Number.POSITIVE_INFINITY,
+		maxConcurrency: 4,
+		embed: async (inputs) => {
+			const response = await http.request("/api/embed", {
+				method: "POST",
+				body: JSON.stringify({ model, input: inputs }),
+			});
+			const body: any = await response.json();
+			return body.embeddings;
+		},
+	};
+}
+
+function createVoyageProvider(
+	model: string,
+	baseUrl = "https://api.voyageai.com/v1",
+	dimensions?: number,
+): ProviderClient {
+	const http = createHttpClient({
+		baseUrl,
+		name: "Voyage",
+		headers: {
+			"Content-Type": "application/json",
+			Authorization: `Bearer ${requireKey("voyage", "VOYAGE_API_KEY")}`,
+		},
+	});
+	return {
+		name: "voyage",
+		model,
+		maxBatchSize: 128,
+		// The lowest per-request limit of the current models (voyage-3-large)
+		maxBatchTokens: 120_000,
+		maxConcurrency: 8,
+		embed: async (inputs, inputType) => {
+			const response = await http.request("/embeddings", {
+				method: "POST",
+				body: JSON.stringify({ model, input: inputs, input_type: inputType, output_dimension: dimensions }),
+			});
+			const body: any = await response.json();
+			return body.data.sort((a: any, b: any) => a.index - b.index).map((item: any) => item.embedding);
+		},
+	};
+}
+
+function createCohereProvider(model: string, baseUrl = "https://api.cohere.com", dimensions?: number): ProviderClient {
+	const http = createHttpClient({
+		baseUrl,
+		name: "Cohere",
+		headers: {
+			"Content-Type": "application/json",
+			Authorization: `Bearer ${requireKey("cohere", "COHERE_API_KEY", "CO_API_KEY")}`,
+		},
+	});
+	return {
+		name: "cohere",
+		model,
+		maxBatchSize: 96,
+		maxBatchTokens: Number.POSITIVE_INFINITY,
+		maxConcurrency: 8,
+		embed: async (inputs, inputType) => {
+			const response = await http.request("/v2/embed", {
+				method: "POST",
+				body: JSON.stringify({
+					model,
+					texts: inputs,
+					input_type: inputType === "query" ? "search_query" : "search_document",
+					embedding_types: ["float"],
+					output_dimension: dimensions,
+				}),
+			});
+			const body: any = await response.json();
+			return body.embeddings.float;
+		},
+	};
+}
+
+// node-llama-cpp is an optional dependency, loaded only for this provider
+async function createLocalProvider(options: EmbeddingProviderOptions): Promise<ProviderClient> {
+	const modelPath = options.localModel;
+	if (!modelPath) throw new Error("--local-model <path> is required for the local embedding provider");
+	let model: LlamaModel;
+	// One context per sequence embedded in parallel, each runs one input at a time
+	const contexts: LlamaEmbeddingContext[] = [];
+	try {
+		const { getLlama } = await import("node-llama-cpp");
+		const llama = await getLlama();
+		model = await llama.loadModel({ modelPath });
+		for (let i = 0; i < Math.max(1, options.sequences ?? 1); i += 1) {
+			contexts.push(
+				await model.createEmbeddingContext({ contextSize: options.contextSize, threads: options.threads }),
+			);
+		}
+	} catch (e: any) {
+		if (e?.code === "ERR_MODULE_NOT_FOUND" || e?.message?.includes("Cannot find")) {
+			throw new Error(
+				"node-llama-cpp is not installed. Install it with:\n  npm install node-llama-cpp\n\nNote: This package is optional and only needed for local embeddings.",
+			);
+		}
+		throw new Error(`Failed to initialize node-llama-cpp: ${e?.message ?? e}`);
+	}
+	// Inputs longer than the context fail, so they are cut to fit it along with the BOS, EOS and SEP tokens
+	// the model adds. Text cut at a token boundary can tokenize longer, so it is checked again.
+	const { bos, eos, sep } = model.tokens;
+	const specialTokens = [bos, eos, sep].filter((token) => token !== null).length;
+	const maxTokens = (options.contextSize ?? model.trainContextSize) - specialTokens;
+	const fit = (input: string) => {
+		const tokens = model.tokenize(input);
+		let text = input;
+		let length = tokens.length;
+		let limit = maxTokens;
+		while (length > maxTokens && limit > 0) {
+			text = model.detokenize(tokens.slice(0, limit));
+			length = model.tokenize(text).length;
+			limit -= length - maxTokens;
+		}
+		return text;
+	};
+	const name = path.basename(modelPath);
+	return {
+		name: "local",
+		model: name,
+		maxBatchSize: Number.POSITIVE_INFINITY,
+		maxBatchTokens: Number.POSITIVE_INFINITY,
+		// Batches are spread over the contexts instead
+		maxConcurrency: 1,
+		embed: async (inputs) => {
+			const results: number[][] = new Array(inputs.length);
+			let next = 0;
+			await Promise.all(
+				contexts.map(async (context) => {
+					while (next < inputs.length) {
+						const index = next++;
+						const embedding = await context.getEmbeddingFor(fit(inputs[index]));
+						results[index] = Array.from(embedding.vector);
+					}
+				}),
+			);
+			return results;
+		},
+	};
+}
+
+// Models that shorten their vectors themselves when asked to, the others are truncated
+export const supportsDimensions = (provider: EmbeddingProviderName, model: string) =>
+	(provider === "openai" && model.startsWith("text-embedding-3")) ||
+	(provider === "voyage" && /^voyage-(3\.5|3-large|code-3|context-3)/.test(model)) ||
+	(provider === "cohere" && model.startsWith("embed-v4"));
+
+const createProvider = async (options: EmbeddingProviderOptions, dimensions?: number) => {
+	if (options.provider === "local") return createLocalProvider(options);
+	const model = options.model ?? DEFAULT_MODELS[options.provider];
+	if (options.provider === "ollama") return createOllamaProvider(model, options.baseUrl);
+	if (options.provider === "voyage") return createVoyageProvider(model, options.baseUrl, dimensions);
+	if (options.provider === "cohere") return createCohereProvider(model, options.baseUrl, dimensions);
+	return createOpenAiProvider(model, options.baseUrl, dimensions);
+};
+
+// The model name, the file name for local models
+export function embeddingModelName(options: EmbeddingProviderOptions): string {
+	if (options.provider === "local") return path.basename(options.localModel ?? "");
+	return options.model ?? DEFAULT_MODELS[options.provider];
+}
+
+// USD per million input tokens of hosted models, for --dry-run estimates
+const PRICES_PER_MILLION_TOKENS: Record<string, number> = {
+	"text-embedding-3-small": 0.02,
+	"text-embedding-3-large": 0.13,
+	"text-embedding-ada-002": 0.1,
+	"voyage-3.5": 0.06,
+	"voyage-3.5-lite": 0.02,
+	"voyage-3-large": 0.18,
+	"voyage-code-3": 0.18,
+	"embed-v4.0": 0.12,
+	"embed-english-v3.0": 0.1,
+	"embed-multilingual-v3.0": 0.1,
+};
+
+// Estimated cost in USD, 0 for models that run locally and null when the price is unknown
+export function estimateCost(options: EmbeddingProviderOptions, tokens: number): number | null {
+	if (options.provider === "local" || options.provider === "ollama") return 0;
+	// Other servers speaking the OpenAI API have their own prices, if any
+	if (options.provider === "openai" && options.baseUrl) return null;
+	const price = PRICES_PER_MILLION_TOKENS[embeddingModelName(options)];
+	return price === undefined ? null : (tokens / 1_000_000) * price;
+}
+
+// Identifies the provider and model in the embedding cache. Known without creating the provider, so
+// --dry-run can look up cached texts without API keys or loading a model.
+export function embeddingProviderId(options: EmbeddingProviderOptions): string {
+	const model = embeddingModelName(options);
+	let id: string;
+	if (options.provider === "local") {
+		// Local models are told apart by file name, plus a hash of their path and size, since GGUF files of
+		// different models often share a name like model-q4_k_m.gguf
+		const modelPath = path.resolve(options.localModel ?? "");
+		const size = fs.existsSync(modelPath) ? fs.statSync(modelPath).size : 0;
+		id = `local-${model}-${createHash("sha256").update(`${modelPath}:${size}`).digest("hex").slice(0, 8)}`;
+	} else if (options.provider === "openai") {
+		id = options.baseUrl ? `openai-${new URL(options.baseUrl).host}-${model}` : model;
+	} else {
+		id = `${options.provider}-${model}`;
+	}
+	// Vectors of different lengths or prefixes don't mix
+	const { document } = taskPrefixes(options);
+	if (options.dimensions) id += `-${options.dimensions}d`;
+	if (document) id += `-p${createHash("sha256").update(document).digest("hex").slice(0, 8)}`;
+	return id;
+}
+
+// Catches servers that return fewer vectors than inputs, or vectors of another length than asked for or
+// than the rest of the batch, before they end up in the cache
+const checkVectors = (vectors: number[][], count: number, dimensions?: number) => {
+	if (!Array.isArray(vectors) || vectors.length !== count) {
+		throw new Error(`Expected ${count} embeddings, the provider returned ${vectors?.length ?? "none"}`);
+	}
+	const expected = dimensions ?? vectors[0]?.length;
+	for (const vector of vectors) {
+		if (!Array.isArray(vector) || vector.length !== expected || vector.length === 0) {
+			throw new Error(
+				`Expected embeddings of ${expected} dimensions, the provider returned one of ${vector?.length ?? 0}`,
+			);
+		}
+	}
+};
+
+export async function createEmbeddingProvider(options: EmbeddingProviderOptions): Promise<EmbeddingProvider> {
+	const { dimensions } = options;
+	const prefixes = taskPrefixes(options);
+	const native = dimensions !== undefined && supportsDimensions(options.provider, embeddingModelName(options));
+	const provider = await createProvider(options, native ? dimensions : undefined);
+	return {
+		...provider,
+		id: embeddingProviderId(options),
+		embed: async (inputs, inputType) => {
+			const prefix = inputType === "query" ? prefixes.query : prefixes.document;
+			const vectors = await provider.embed(prefix ? inputs.map((input) => prefix + input) : inputs, inputType);
+			checkVectors(vectors, inputs.length, native ? dimensions : undefined);
+			return !dimensions || native ? vectors : vectors.map((vector) => truncateVector(vector, dimensions));
+		},
+	};
+}
@@ -0,0 +1,50 @@
+// Separate title, body and file path vectors, combined with weights when building the map. Tuning the
+// weights only needs a new build, not new embeddings.
+
+export type EmbeddingField = "title" | "body" | "files";
+
+export const EMBEDDING_FIELDS: EmbeddingField[] = ["title", "body", "files"];
+
+export type FieldEmbeddings = Partial<Record<EmbeddingField, number[]>>;
+
+export type FieldWeights = Record<EmbeddingField, number>;
+
+// Parses a --weights value like title=0.5,body=0.3,files=0.2. Fields left out weigh 0.
+export function parseWeights(value: string): FieldWeights {
+	const weights: FieldWeights = { title: 0, body: 0, files: 0 };
+	for (const part of value.split(",")) {
+		const [field, weight] = part.split("=").map((s) => s.trim());
+		if (!EMBEDDING_FIELDS.includes(field as EmbeddingField)) {
+			throw new Error(`Invalid --weights field ${field}, expected ${EMBEDDING_FIELDS.join(", ")}`);
+		}
+		const number = Number(weight);
+		if (!weight || Number.isNaN(number) || number < 0) {
+			throw new Error(`Invalid --weights value for ${field}: ${weight ?? ""}`);
+		}
+		weights[field as EmbeddingField] = number;
+	}
+	if (EMBEDDING_FIELDS.every((field) => weights[field] === 0)) {
+		throw new Error("--weights needs at least one field with a weight above 0");
+	}
+	return weights;
+}
+
+const normalize = (vector: number[]): number[] => {
+	const norm = Math.sqrt(vector.reduce((sum, value) => sum + value * value, 0)) || 1;
+	return vector.map((value) => value / norm);
+};
+
+// Concatenates the unit field vectors scaled by the square roots of their weights, so the dot product of two
+// combined vectors is the weighted sum of the per-field cosine similarities. Weights are spread over the
+// fields an item has, an item without files is compared on title and body alone. Items with none of the
+// weighted fields get a zero vector.
+export function combineFields(fields: FieldEmbeddings, weights: FieldWeights, dimensions: number): number[] {
+	const present = EMBEDDING_FIELDS.filter((field) => fields[field] && weights[field] > 0);
+	const total = present.reduce((sum, field) => sum + weights[field], 0);
+	return EMBEDDING_FIELDS.flatMap((field) => {
+		const vector = fields[field];
+		if (!vector || !present.includes(field)) return new Array<number>(dimensions).fill(0);
+		const scale = Math.sqrt(weights[field] / total);
+		return normalize(vector).map((value) => value * scale);
+	});
+}
@@ -0,0 +1,158 @@
+import { createStageRunner, forEachFrom } from "./checkpoint.js";
+import { type ItemComment, isBotAuthor } from "./comments.js";
+import { splitUnifiedDiff, summarizePatches } from "./diff.js";
+import type { Item } from "./embed.js";
+import { createHttpClient, formatRateLimit } from "./http.js";
+import type { FetchQuery, Source } from "./sources.js";
+
+export interface GiteaSourceOptions {
+	apiUrl: string;
+	token?: string;
+	owner: string;
+	name: string;
+	label: string;
+}
+
+// The issues endpoint also lists pull requests, marked by a non-null pull_request field
+function mapGiteaIssue(issue: any): Item {
+	return {
+		url: issue.html_url,
+		number: issue.number,
+		title: issue.title,
+		body: issue.body,
+		state: issue.state,
+		type: issue.pull_request ? "pr" : "issue",
+		createdAt: issue.created_at,
+		updatedAt: issue.updated_at,
+		author: issue.user?.login,
+		labels: (issue.labels ?? []).map((label: any) => label.name),
+		assignees: (issue.assignees ?? []).map((assignee: any) => assignee.login),
+		milestone: issue.milestone?.title,
+		commentCount: issue.comments,
+	};
+}
+
+export interface GiteaOwnerOptions {
+	apiUrl: string;
+	token?: string;
+	owner: string;
+}
+
+// Lists the non-fork, non-archived repos of an org, or of a user if no org by that name exists
+export async function listGiteaRepos(options: GiteaOwnerOptions): Promise<string[]> {
+	const http = createHttpClient({
+		baseUrl: options.apiUrl,
+		name: "Gitea",
+		headers: options.token ? { Authorization: `token ${options.token}` } : {},
+	});
+	const names: string[] = [];
+	const collect = (page: any[]) => {
+		for (const repo of page) {
+			if (!repo.fork && !repo.archived) names.push(repo.name);
+		}
+	};
+	try {
+		await http.paginate(`/orgs/${options.owner}/repos?limit=50`, collect);
+	} catch {
+		await http.paginate(`/users/${options.owner}/repos?limit=50`, collect);
+	}
+	return names;
+}
+
+// Works for Gitea and Forgejo, which share the /api/v1 API
+export function createGiteaSource(options: GiteaSourceOptions): Source {
+	const http = createHttpClient({
+		baseUrl: options.apiUrl,
+		name: "Gitea",
+		headers: options.token ? { Authorization: `token ${options.token}` } : {},
+	});
+	const label = options.label;
+
+	const fetch = async (query: FetchQuery): Promise<Item[]> => {
+		const { state, type, createdSince, updatedSince } = query;
+		const stages = createStageRunner(query.checkpoint);
+		const items = stages.items;
+		let prCount = items.filter((item) => item.type === "pr").length;
+		let issueCount = items.length - prCount;
+		const budget = () => formatRateLimit(http.rateLimit());
+
+		const fetchList = async (
+			itemType: "pr" | "issue",
+			cursor: string | null,
+			advance: (cursor: string | null) => void,
+		) => {
+			const params = new URLSearchParams({ state, type: itemType === "pr" ? "pulls" : "issues", limit: "50" });
+			if (updatedSince) params.set("since", updatedSince.toISOString());
+			// Excluded labels, several authors and the created range are filtered client-side
+			if (query.labels?.length) params.set("labels", query.labels.join(","));
+			if (query.authors?.length === 1) params.set("created_by", query.authors[0]);
+
+			await http.paginate(cursor ?? `/repos/${options.owner}/${options.name}/issues?${params}`, (page, nextUrl) => {
+				for (const raw of page) {
+					const item = mapGiteaIssue(raw);
+					// The API only filters by update time, so the created cutoff is applied here
+					if (createdSince && Date.parse(item.createdAt!) < createdSince.getTime()) continue;
+					items.push(item);
+					if (itemType === "pr") prCount++;
+					else issueCount++;
+				}
+				console.log(`[${label}] Fetched ${prCount} PRs, ${issueCount} issues${budget()}`);
+				advance(nextUrl);
+			});
+		};
+
+		// The files endpoint has no patches, so each PR's raw diff is fetched and split per file
+		const fetchDiffs = async (cursor: string | null, advance: (cursor: string | null) => void) => {
+			const prs = items.filter((item) => item.type === "pr");
+			await forEachFrom(prs, cursor, advance, async (pr, index) => {
+				const response = await http.request(`/repos/${options.owner}/${options.name}/pulls/${pr.number}.diff`);
+				const patches = splitUnifiedDiff(await response.text());
+				pr.files = patches.map((file) => file.path);
+				pr.diff = summarizePatches(patches);
+				const done = index + 1;
+				if (done % 50 === 0 || done === prs.length) {
+					console.log(`[${label}] Fetched diffs for ${done}/${prs.length} PRs${budget()}`);
+				}
+			});
+		};
+
+		// Only conversation comments, review comments are listed per review and not fetched
+		const fetchComments = async (cursor: string | null, advance: (cursor: string | null) => void) => {
+			await forEachFrom(items, cursor, advance, async (item, index) => {
+				const comments: ItemComment[] = [];
+				if (item.commentCount !== 0) {
+					await http.paginate(
+						`/repos/${options.owner}/${options.name}/issues/${item.number}/comments?limit=50`,
+						(page) => {
+							for (const comment of page) {
+								if (!query.includeBotComments && isBotAuthor(comment.user?.login)) continue;
+								comments.push({
+									author: comment.user?.login,
+									body: comment.body ?? "",
+									createdAt: comment.created_at,
+								});
+							}
+						},
+					);
+				}
+				item.comments = comments;
+				const done = index + 1;
+				if (done % 50 === 0 || done === items.length) {
+					console.log(`[${label}] Fetched comments for ${done}/${items.length} items${budget()}`);
+				}
+			});
+		};
+
+		if (type === "pr" || type === "all") {
+			await stages.run("prs", (cursor, advance) => fetchList("pr", cursor, advance));
+		}
+		if (type === "issue" || type === "all") {
+			await stages.run("issues", (cursor, advance) => fetchList("issue", cursor, advance));
+		}
+		if (query.includeDiffs) await stages.run("diffs", fetchDiffs);
+		if (query.includeComments) await stages.run("comments", fetchComments);
+		return items;
+	};
+
+	return { label, fetch };
+}
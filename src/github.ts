@@ -0,0 +1,709 @@
+import { spawn } from "child_process";
+import readline from "readline";
+import { createStageRunner, forEachFrom } from "./checkpoint.js";
+import { byCreatedAt, type ItemComment, isBotAuthor } from "./comments.js";
+import { type FilePatch, summarizePatches } from "./diff.js";
+import type { Item } from "./embed.js";
+import {
+	createHttpClient,
+	formatRateLimit,
+	MAX_ATTEMPTS,
+	MAX_RATE_LIMIT_WAITS,
+	type RateLimit,
+	resetDelay,
+	sleep,
+} from "./http.js";
+import { addLinks, type ItemLink } from "./links.js";
+import type { FetchQuery, Source } from "./sources.js";
+
+export const DEFAULT_GITHUB_HOST = "github.com";
+export const DEFAULT_GITHUB_API_URL = "https://api.github.com";
+
+type GraphqlVariables = Record<string, string | number | boolean | null | undefined>;
+
+// Minimal GitHub API surface used by the fetch stage, implemented natively and on top of the gh CLI
+export interface GitHubApi {
+	label: string;
+	graphql(query: string, variables: GraphqlVariables): Promise<any>;
+	get(endpoint: string): Promise<any>;
+	// Calls onPage with the parsed body of every page, following pagination to the end. nextUrl can be
+	// passed as endpoint to resume there, it is null on the last page and when the client cannot tell.
+	paginate(endpoint: string, onPage: (page: any, nextUrl: string | null) => void): Promise<void>;
+	rateLimit(): RateLimit | null;
+}
+
+export interface GitHubClientOptions {
+	token: string;
+	apiUrl: string;
+	graphqlUrl?: string;
+}
+
+// GitHub Enterprise Server serves REST at <host>/api/v3 and GraphQL at <host>/api/graphql
+function defaultGraphqlUrl(apiUrl: string): string {
+	if (apiUrl.endsWith("/api/v3")) return `${apiUrl.slice(0, -"/v3".length)}/graphql`;
+	return `${apiUrl}/graphql`;
+}
+
+export function createGitHubClient(options: GitHubClientOptions): GitHubApi {
+	const apiUrl = options.apiUrl.replace(/\/+$/, "");
+	const graphqlUrl = options.graphqlUrl ?? defaultGraphqlUrl(apiUrl);
+	const http = createHttpClient({
+		baseUrl: apiUrl,
+		name: "GitHub",
+		headers: {
+			Accept: "application/vnd.github+json",
+			Authorization: `Bearer ${options.token}`,
+			"X-GitHub-Api-Version": "2022-11-28",
+			"User-Agent": "doppelgangers",
+		},
+	});
+
+	const graphql = async (query: string, variables: GraphqlVariables, waits = 0): Promise<any> => {
+		const response = await http.request(graphqlUrl, { method: "POST", body: JSON.stringify({ query, variables }) });
+		const body: any = await response.json();
+		if (body.errors?.length) {
+			if (body.errors.some((error: any) => error.type === "RATE_LIMITED") && waits < MAX_RATE_LIMIT_WAITS) {
+				const delay = resetDelay(response);
+				console.warn(`GitHub GraphQL rate limit hit, waiting ${Math.ceil(delay / 1000)}s before retrying`);
+				await sleep(delay);
+				return graphql(query, variables, waits + 1);
+			}
+			throw new Error(`GitHub GraphQL query failed: ${body.errors.map((error: any) => error.message).join("; ")}`);
+		}
+		return body.data;
+	};
+
+	return {
+		label: `GitHub API at ${apiUrl}`,
+		graphql,
+		get: http.getJson,
+		paginate: http.paginate,
+		rateLimit: http.rateLimit,
+	};
+}
+
+// gh's stderr is captured so failures like rate limits can be recognized from the error message
+const ghExit = (gh: ReturnType<typeof spawn>, args: string[]) => {
+	const stderr: Buffer[] = [];
+	gh.stderr!.on("data", (chunk: Buffer) => stderr.push(chunk));
+	return new Promise<void>((resolve, reject) => {
+		gh.on("close", (code) => {
+			if (code === 0) return resolve();
+			const message = Buffer.concat(stderr).toString("utf8").trim();
+			reject(new Error(`gh ${args.slice(0, 2).join(" ")} exited with code ${code}${message ? `: ${message}` : ""}`));
+		});
+		gh.on("error", reject);
+	});
+};
+
+// Streams one JSON document per line from a gh command
+const streamGhJson = async (args: string[], onData: (item: any) => void) => {
+	const gh = spawn("gh", args, {
+		stdio: ["ignore", "pipe", "pipe"],
+	});
+
+	const rl = readline.createInterface({
+		input: gh.stdout!,
+		crlfDelay: Number.POSITIVE_INFINITY,
+	});
+
+	const readPromise = (async () => {
+		for await (const line of rl) {
+			const trimmed = line.trim();
+			if (!trimmed) continue;
+			let item: any;
+			try {
+				item = JSON.parse(trimmed);
+			} catch (error) {
+				throw new Error(`Could not parse gh output: ${(error as Error).message}\n${trimmed.slice(0, 200)}`);
+			}
+			onData(item);
+		}
+	})();
+
+	await Promise.all([readPromise, ghExit(gh, args)]);
+};
+
+// Runs a gh command and parses its whole stdout as one JSON document
+const runGhJson = async (args: string[]): Promise<any> => {
+	const gh = spawn("gh", args, {
+		stdio: ["ignore", "pipe", "pipe"],
+	});
+
+	const chunks: Buffer[] = [];
+	gh.stdout!.on("data", (chunk: Buffer) => chunks.push(chunk));
+	await ghExit(gh, args);
+
+	const output = Buffer.concat(chunks).toString("utf8");
+	try {
+		return JSON.parse(output);
+	} catch (error) {
+		throw new Error(`Could not parse gh output: ${(error as Error).message}\n${output.slice(0, 200)}`);
+	}
+};
+
+// hostname selects a GitHub Enterprise Server host the gh CLI is logged into
+export function createGhCliClient(hostname?: string): GitHubApi {
+	const hostArgs = hostname ? ["--hostname", hostname] : [];
+	// gh does not expose response headers, so the budget is only known from GraphQL queries that ask for rateLimit
+	let lastRateLimit: RateLimit | null = null;
+
+	// Waits until the rate limit resets. Secondary rate limits leave budget, they get a fixed pause.
+	const waitForReset = async (resource: "core" | "graphql" | "search") => {
+		let delay = 60_000;
+		try {
+			const limits = (await runGhJson(["api", ...hostArgs, "rate_limit"])).resources[resource];
+			if (limits.remaining === 0) delay = Math.max(0, limits.reset * 1000 - Date.now()) + 1000;
+		} catch {
+			// keep the fixed pause
+		}
+		console.warn(`GitHub rate limit hit, waiting ${Math.ceil(delay / 1000)}s before retrying`);
+		await sleep(delay);
+	};
+
+	// Runs a gh call to completion, waiting out rate limits and retrying other failures with backoff
+	const call = async (
+		args: string[],
+		resource: "core" | "graphql" | "search",
+		attempt = 1,
+		waits = 0,
+	): Promise<any> => {
+		try {
+			return await runGhJson(args);
+		} catch (error) {
+			if (/rate limit/i.test((error as Error).message)) {
+				if (waits >= MAX_RATE_LIMIT_WAITS) throw error;
+				await waitForReset(resource);
+				return call(args, resource, attempt, waits + 1);
+			}
+			if (attempt >= MAX_ATTEMPTS) throw error;
+			const delay = 1000 * 2 ** (attempt - 1);
+			console.warn(`gh request failed, retrying in ${delay}ms`, (error as Error).message);
+			await sleep(delay);
+			return call(args, resource, attempt + 1, waits);
+		}
+	};
+
+	return {
+		label: hostname ? `gh CLI (${hostname})` : "gh CLI",
+		graphql: async (query, variables) => {
+			const args = ["api", "graphql", ...hostArgs, "-f", `query=${query}`];
+			for (const [key, value] of Object.entries(variables)) {
+				if (value === null || value === undefined) continue;
+				// -f passes strings verbatim, -F converts numbers and booleans
+				args.push(typeof value === "string" ? "-f" : "-F", `${key}=${value}`);
+			}
+			const body = await call(args, "graphql");
+			const rateLimit = body.data?.rateLimit;
+			if (rateLimit) {
+				lastRateLimit = {
+					remaining: rateLimit.remaining,
+					limit: rateLimit.limit,
+					resetAt: new Date(rateLimit.resetAt),
+				};
+			}
+			return body.data;
+		},
+		get: (endpoint) => call(["api", ...hostArgs, endpoint], endpoint.startsWith("/search/") ? "search" : "core"),
+		// With --jq, gh prints every page as one compact JSON line. Pages are streamed, so a failure is not
+		// retried here and the next page URL is unknown. A resumed fetch restarts the stage.
+		paginate: (endpoint, onPage) =>
+			streamGhJson(["api", ...hostArgs, "--paginate", endpoint, "--jq", "."], (page) => onPage(page, null)),
+		rateLimit: () => lastRateLimit,
+	};
+}
+
+// Maximum number of results the GitHub search API returns for a single query
+const SEARCH_RESULT_CAP = 1000;
+
+// Lower bound for created: ranges without a start, nothing on GitHub is older
+const GITHUB_EPOCH = new Date("2008-01-01T00:00:00Z");
+
+function formatSearchTime(date: Date): string {
+	return date.toISOString().replace(/\.\d{3}Z$/, "Z");
+}
+
+const quoteQualifier = (value: string) => (/[\s"]/.test(value) ? `"${value.replace(/"/g, '\\"')}"` : value);
+
+// GraphQL selection shared by all PR queries, mapped by mapPrNode
+const PR_NODE_FIELDS = `
+	number
+	title
+	body
+	url
+	state
+	createdAt
+	updatedAt
+	author {
+		login
+	}
+	labels(first: 20) {
+		nodes {
+			name
+		}
+	}
+	assignees(first: 10) {
+		nodes {
+			login
+		}
+	}
+	milestone {
+		title
+	}
+	comments {
+		totalCount
+	}
+	reactions {
+		totalCount
+	}
+	files(first: 20) {
+		nodes {
+			path
+		}
+	}
+`;
+
+// Issues and PRs that link to each other, queried for a batch of items at once with one alias per number
+const LINK_TARGET_FIELDS = `
+	... on Issue {
+		number
+		url
+		repository {
+			nameWithOwner
+		}
+	}
+	... on PullRequest {
+		number
+		url
+		repository {
+			nameWithOwner
+		}
+	}
+`;
+
+const LINK_TIMELINE_FIELDS = `
+	timelineItems(itemTypes: [CROSS_REFERENCED_EVENT, MARKED_AS_DUPLICATE_EVENT], first: 50) {
+		nodes {
+			__typename
+			... on CrossReferencedEvent {
+				willCloseTarget
+				source {
+					${LINK_TARGET_FIELDS}
+				}
+			}
+			... on MarkedAsDuplicateEvent {
+				canonical {
+					${LINK_TARGET_FIELDS}
+				}
+				duplicate {
+					${LINK_TARGET_FIELDS}
+				}
+			}
+		}
+	}
+`;
+
+const LINK_FIELDS = `
+	... on Issue {
+		${LINK_TIMELINE_FIELDS}
+	}
+	... on PullRequest {
+		closingIssuesReferences(first: 20) {
+			nodes {
+				${LINK_TARGET_FIELDS}
+			}
+		}
+		${LINK_TIMELINE_FIELDS}
+	}
+`;
+
+// Items per links query, each one adds up to 70 timeline and closing reference nodes
+const LINKS_BATCH_SIZE = 50;
+
+function mapPrNode(node: any): Item {
+	return {
+		url: node.url,
+		number: node.number,
+		title: node.title,
+		body: node.body,
+		state: node.state === "OPEN" ? "open" : "closed",
+		type: "pr",
+		createdAt: node.createdAt,
+		updatedAt: node.updatedAt,
+		author: node.author?.login,
+		labels: node.labels.nodes.map((label: any) => label.name),
+		assignees: node.assignees.nodes.map((assignee: any) => assignee.login),
+		milestone: node.milestone?.title,
+		commentCount: node.comments.totalCount,
+		reactionCount: node.reactions.totalCount,
+		files: node.files?.nodes.map((file: any) => file.path),
+	};
+}
+
+// Maps REST issue objects, which the issues and search endpoints also return for PRs
+function mapRestIssue(issue: any): Item {
+	return {
+		url: issue.html_url,
+		number: issue.number,
+		title: issue.title,
+		body: issue.body,
+		state: issue.state,
+		type: issue.pull_request ? "pr" : "issue",
+		createdAt: issue.created_at,
+		updatedAt: issue.updated_at,
+		author: issue.user?.login,
+		labels: (issue.labels ?? []).map((label: any) => (typeof label === "string" ? label : label.name)),
+		assignees: (issue.assignees ?? []).map((assignee: any) => assignee.login),
+		milestone: issue.milestone?.title,
+		commentCount: issue.comments,
+		reactionCount: issue.reactions?.total_count,
+	};
+}
+
+// Issue comments and PR review comments share these fields
+function mapRestComment(comment: any): ItemComment {
+	return {
+		author: comment.user?.login,
+		body: comment.body ?? "",
+		createdAt: comment.created_at,
+		reactionCount: comment.reactions?.total_count,
+	};
+}
+
+// Lists the non-fork, non-archived repos of an org, or of a user if no org by that name exists
+export async function listGitHubRepos(api: GitHubApi, owner: string): Promise<string[]> {
+	const names: string[] = [];
+	const collect = (page: any[]) => {
+		for (const repo of page) {
+			if (!repo.fork && !repo.archived) names.push(repo.name);
+		}
+	};
+	try {
+		await api.paginate(`/orgs/${owner}/repos?type=all&per_page=100`, collect);
+	} catch {
+		await api.paginate(`/users/${owner}/repos?type=owner&per_page=100`, collect);
+	}
+	return names;
+}
+
+export function createGitHubSource(api: GitHubApi, owner: string, name: string, label: string): Source {
+	const fetch = async (query: FetchQuery): Promise<Item[]> => {
+		const { state, type, createdSince, createdUntil, updatedSince } = query;
+		const labels = query.labels ?? [];
+		// Only a single author can be pushed down, several are matched client-side
+		const author = query.authors?.length === 1 ? query.authors[0] : undefined;
+		const stages = createStageRunner(query.checkpoint);
+		const items = stages.items;
+		let prCount = items.filter((item) => item.type === "pr").length;
+		let issueCount = items.length - prCount;
+		const budget = () => formatRateLimit(api.rateLimit());
+
+		// Search qualifiers for the label, author and updated filters
+		const filterQualifiers = [
+			...labels.map((name) => `label:${quoteQualifier(name)}`),
+			...(query.excludeLabels ?? []).map((name) => `-label:${quoteQualifier(name)}`),
+			...(author ? [`author:${author}`] : []),
+			...(updatedSince ? [`updated:>=${formatSearchTime(updatedSince)}`] : []),
+		].join(" ");
+
+		// The search API returns at most SEARCH_RESULT_CAP results per query. Windows whose total exceeds
+		// the cap are split in half by creation time until every window fits or is down to one second.
+		const fetchWithSearch = async (itemType: "pr" | "issue") => {
+			const statesToFetch: Array<"open" | "closed"> = state === "all" ? ["open", "closed"] : [state];
+			const seen = new Set<string>();
+			let truncatedWindows = 0;
+
+			const searchWindow = async (stateValue: "open" | "closed", start: Date, end: Date): Promise<void> => {
+				const range = `${formatSearchTime(start)}..${formatSearchTime(end)}`;
+				const query =
+					`repo:${owner}/${name} is:${itemType} state:${stateValue} created:${range} ${filterQualifiers}`.trim();
+				const endpoint = `/search/issues?q=${encodeURIComponent(query)}&sort=created&order=desc`;
+
+				const probe = await api.get(`${endpoint}&per_page=1`);
+				const spanSeconds = Math.floor((end.getTime() - start.getTime()) / 1000);
+				if (probe.total_count > SEARCH_RESULT_CAP && spanSeconds >= 1) {
+					console.log(
+						`[${label}] Search window ${range} has ${probe.total_count} results, over the ${SEARCH_RESULT_CAP}-result cap, splitting`,
+					);
+					const mid = new Date(start.getTime() + Math.floor(spanSeconds / 2) * 1000);
+					await searchWindow(stateValue, start, mid);
+					await searchWindow(stateValue, new Date(mid.getTime() + 1000), end);
+					return;
+				}
+				if (probe.total_count > SEARCH_RESULT_CAP) {
+					truncatedWindows++;
+					console.warn(
+						`[${label}] WARNING: search window ${range} has ${probe.total_count} results and cannot be split further. Results are truncated.`,
+					);
+				}
+				if (probe.total_count === 0) return;
+
+				let incomplete = false;
+				await api.paginate(`${endpoint}&per_page=100`, (page) => {
+					if (page.incomplete_results) incomplete = true;
+					for (const result of page.items) {
+						const item = mapRestIssue(result);
+						if (seen.has(item.url)) continue;
+						seen.add(item.url);
+						items.push(item);
+						if (itemType === "pr") prCount++;
+						else issueCount++;
+					}
+				});
+				if (incomplete) {
+					truncatedWindows++;
+					console.warn(
+						`[${label}] WARNING: search window ${range} timed out on GitHub's side. Results are incomplete.`,
+					);
+				}
+				console.log(`[${label}] Fetched ${prCount} PRs, ${issueCount} issues${budget()}`);
+			};
+
+			// Search ranges are second-granular and inclusive. Without --until, round now up to the next full second.
+			const end = createdUntil
+				? new Date(Math.floor((createdUntil.getTime() - 1) / 1000) * 1000)
+				: new Date(Math.ceil(Date.now() / 1000) * 1000);
+			for (const stateValue of statesToFetch) {
+				await searchWindow(stateValue, createdSince ?? GITHUB_EPOCH, end);
+			}
+
+			if (truncatedWindows > 0) {
+				console.warn("");
+				console.warn("=".repeat(80));
+				console.warn(
+					`[${label}] WARNING: ${truncatedWindows} search window(s) returned incomplete results. Some ${itemType === "pr" ? "PRs" : "issues"} are missing.`,
+				);
+				console.warn("Drop --since and --until to fetch everything through the GraphQL/REST APIs instead.");
+				console.warn("=".repeat(80));
+				console.warn("");
+			}
+		};
+
+		// Helper for GraphQL pagination of PRs, starting after cursor. onPage gets the cursor after
+		// the page and returns false to stop paginating early.
+		const paginatePrs = async (
+			connectionArgs: string,
+			cursor: string | null,
+			onPage: (page: Item[], endCursor: string | null) => boolean,
+		) => {
+			const graphqlQuery = `
+				query($owner: String!, $name: String!, $endCursor: String) {
+					rateLimit {
+						limit
+						remaining
+						resetAt
+					}
+					repository(owner: $owner, name: $name) {
+						pullRequests(first: 100, after: $endCursor, ${connectionArgs}) {
+							pageInfo {
+								hasNextPage
+								endCursor
+							}
+							nodes {
+								${PR_NODE_FIELDS}
+							}
+						}
+					}
+				}
+			`;
+
+			let endCursor = cursor;
+			while (true) {
+				const data = await api.graphql(graphqlQuery, { owner, name, endCursor });
+				const connection = data.repository.pullRequests;
+				const keepGoing = onPage(connection.nodes.map(mapPrNode), connection.pageInfo.endCursor);
+				if (!keepGoing || !connection.pageInfo.hasNextPage) break;
+				endCursor = connection.pageInfo.endCursor;
+			}
+		};
+
+		const graphqlStates =
+			state === "open" ? "[OPEN]" : state === "closed" ? "[CLOSED, MERGED]" : "[OPEN, CLOSED, MERGED]";
+		// GraphQL matches PRs with any of the labels, requiring all of them is left to the client-side filter
+		const graphqlFilters = `states: ${graphqlStates}${labels.length > 0 ? `, labels: ${JSON.stringify(labels)}` : ""}`;
+
+		// REST issue listings require all labels and filter by a single creator
+		const restFilters = `${labels.length > 0 ? `&labels=${encodeURIComponent(labels.join(","))}` : ""}${author ? `&creator=${encodeURIComponent(author)}` : ""}`;
+
+		const fetchPrsGraphql = async (cursor: string | null, advance: (cursor: string | null) => void) => {
+			await paginatePrs(graphqlFilters, cursor, (page, endCursor) => {
+				items.push(...page);
+				prCount += page.length;
+				console.log(`[${label}] Fetched ${prCount} PRs (with files), ${issueCount} issues${budget()}`);
+				advance(endCursor);
+				return true;
+			});
+		};
+
+		// Helper for incremental PR fetching. GraphQL has no updated-since filter, so walk PRs
+		// by most recently updated and stop at the first page that reaches past the cutoff.
+		const fetchUpdatedPrsGraphql = async (
+			since: Date,
+			cursor: string | null,
+			advance: (cursor: string | null) => void,
+		) => {
+			const connectionArgs = `${graphqlFilters}, orderBy: { field: UPDATED_AT, direction: DESC }`;
+			await paginatePrs(connectionArgs, cursor, (page, endCursor) => {
+				for (const item of page) {
+					if (Date.parse(item.updatedAt!) < since.getTime()) {
+						console.log(`[${label}] Fetched ${prCount} updated PRs${budget()}`);
+						return false;
+					}
+					items.push(item);
+					prCount++;
+				}
+				console.log(`[${label}] Fetched ${prCount} updated PRs${budget()}`);
+				advance(endCursor);
+				return true;
+			});
+		};
+
+		// Helper for REST fetching of issues, resuming at the next-page URL in cursor
+		const fetchIssuesRest = async (
+			endpoint: string,
+			cursor: string | null,
+			advance: (cursor: string | null) => void,
+		) => {
+			await api.paginate(cursor ?? endpoint, (page, nextUrl) => {
+				for (const issue of page) {
+					if (issue.pull_request) continue;
+					items.push(mapRestIssue(issue));
+					issueCount++;
+				}
+				console.log(`[${label}] Fetched ${prCount} PRs, ${issueCount} issues${budget()}`);
+				advance(nextUrl);
+			});
+		};
+
+		// Replaces the first 20 files from the PR query with every changed file and summarizes the patches
+		const fetchDiffs = async (cursor: string | null, advance: (cursor: string | null) => void) => {
+			const prs = items.filter((item) => item.type === "pr");
+			await forEachFrom(prs, cursor, advance, async (pr, index) => {
+				const patches: FilePatch[] = [];
+				await api.paginate(`/repos/${owner}/${name}/pulls/${pr.number}/files?per_page=100`, (page) => {
+					for (const file of page) patches.push({ path: file.filename, patch: file.patch });
+				});
+				pr.files = patches.map((file) => file.path);
+				pr.diff = summarizePatches(patches);
+				const done = index + 1;
+				if (done % 50 === 0 || done === prs.length) {
+					console.log(`[${label}] Fetched diffs for ${done}/${prs.length} PRs${budget()}`);
+				}
+			});
+		};
+
+		// PR conversation comments are issue comments, review comments on the diff come from the pulls endpoint
+		const fetchComments = async (cursor: string | null, advance: (cursor: string | null) => void) => {
+			await forEachFrom(items, cursor, advance, async (item, index) => {
+				const comments: ItemComment[] = [];
+				const collect = (page: any[]) => {
+					for (const comment of page) {
+						if (!query.includeBotComments && isBotAuthor(comment.user?.login, comment.user?.type)) continue;
+						comments.push(mapRestComment(comment));
+					}
+				};
+				if (item.commentCount !== 0) {
+					await api.paginate(`/repos/${owner}/${name}/issues/${item.number}/comments?per_page=100`, collect);
+				}
+				if (item.type === "pr") {
+					await api.paginate(`/repos/${owner}/${name}/pulls/${item.number}/comments?per_page=100`, collect);
+				}
+				item.comments = comments.sort(byCreatedAt);
+				const done = index + 1;
+				if (done % 50 === 0 || done === items.length) {
+					console.log(`[${label}] Fetched comments for ${done}/${items.length} items${budget()}`);
+				}
+			});
+		};
+
+		// Closing references of PRs, cross-references ("mentioned in #12") and duplicates from the timeline.
+		// Timeline events are recorded on the item they point at, so they become incoming links.
+		const fetchLinks = async (cursor: string | null, advance: (cursor: string | null) => void) => {
+			// Labels of other GitHub repos carry the same host prefix as this one, see repoLabel
+			const prefix = label.slice(0, label.length - `${owner}/${name}`.length);
+			const toLink = (node: any, kind: ItemLink["kind"], incoming: boolean): ItemLink => ({
+				kind,
+				repo: prefix + node.repository.nameWithOwner,
+				number: node.number,
+				url: node.url,
+				incoming: incoming || undefined,
+			});
+			const isSelf = (node: any, item: Item) =>
+				node.number === item.number &&
+				node.repository.nameWithOwner.toLowerCase() === `${owner}/${name}`.toLowerCase();
+
+			const batches: Item[][] = [];
+			for (let start = 0; start < items.length; start += LINKS_BATCH_SIZE) {
+				batches.push(items.slice(start, start + LINKS_BATCH_SIZE));
+			}
+			await forEachFrom(batches, cursor, advance, async (batch, index) => {
+				const fields = batch
+					.map((item) => `item${item.number}: issueOrPullRequest(number: ${item.number}) {${LINK_FIELDS}}`)
+					.join("\n");
+				const data = await api.graphql(
+					`query($owner: String!, $name: String!) { repository(owner: $owner, name: $name) { ${fields} } }`,
+					{ owner, name },
+				);
+				for (const item of batch) {
+					const node = data.repository[`item${item.number}`];
+					if (!node) continue;
+					const links: ItemLink[] = [];
+					for (const issue of node.closingIssuesReferences?.nodes ?? []) {
+						if (issue.repository) links.push(toLink(issue, "closes", false));
+					}
+					for (const event of node.timelineItems?.nodes ?? []) {
+						if (event.__typename === "CrossReferencedEvent" && event.source?.repository) {
+							links.push(toLink(event.source, event.willCloseTarget ? "closes" : "mentions", true));
+						} else if (event.__typename === "MarkedAsDuplicateEvent" && event.canonical?.repository) {
+							if (!isSelf(event.canonical, item)) links.push(toLink(event.canonical, "duplicate", false));
+							else if (event.duplicate?.repository) links.push(toLink(event.duplicate, "duplicate", true));
+						}
+					}
+					addLinks(item, label, links);
+				}
+				const done = Math.min((index + 1) * LINKS_BATCH_SIZE, items.length);
+				console.log(`[${label}] Fetched links for ${done}/${items.length} items${budget()}`);
+			});
+		};
+
+		// Created-date ranges need the search API, which also takes all other filters
+		if (createdSince || createdUntil) {
+			if (type === "pr" || type === "all") {
+				await stages.run("search-prs", () => fetchWithSearch("pr"));
+			}
+			if (type === "issue" || type === "all") {
+				await stages.run("search-issues", () => fetchWithSearch("issue"));
+			}
+		} else if (updatedSince) {
+			if (type === "pr" || type === "all") {
+				await stages.run("updated-prs", (cursor, advance) => fetchUpdatedPrsGraphql(updatedSince, cursor, advance));
+			}
+			if (type === "issue" || type === "all") {
+				const endpoint = `/repos/${owner}/${name}/issues?state=${state}&since=${updatedSince.toISOString()}&per_page=100${restFilters}`;
+				await stages.run("updated-issues", (cursor, advance) => fetchIssuesRest(endpoint, cursor, advance));
+			}
+		} else {
+			if (type === "pr" || type === "all") {
+				await stages.run("prs", fetchPrsGraphql);
+			}
+			if (type === "issue" || type === "all") {
+				const endpoint = `/repos/${owner}/${name}/issues?state=${state}&per_page=100${restFilters}`;
+				await stages.run("issues", (cursor, advance) => fetchIssuesRest(endpoint, cursor, advance));
+			}
+		}
+
+		if (query.includeDiffs) {
+			await stages.run("diffs", fetchDiffs);
+		}
+		if (query.includeComments) {
+			await stages.run("comments", fetchComments);
+		}
+		if (query.includeLinks) {
+			await stages.run("links", fetchLinks);
+		}
+
+		return items;
+	};
+
+	return { label, fetch };
+}
@@ -0,0 +1,163 @@
+import { createStageRunner, forEachFrom } from "./checkpoint.js";
+import { type ItemComment, isBotAuthor } from "./comments.js";
+import { type FilePatch, summarizePatches } from "./diff.js";
+import type { Item } from "./embed.js";
+import { createHttpClient, formatRateLimit } from "./http.js";
+import type { FetchQuery, Source } from "./sources.js";
+
+export interface GitLabSourceOptions {
+	apiUrl: string;
+	token?: string;
+	// Full project path, e.g. "group/subgroup/project"
+	project: string;
+	label: string;
+}
+
+// Maps merge requests and issues, which share most of their fields
+function mapGitLabItem(item: any, type: "pr" | "issue"): Item {
+	return {
+		url: item.web_url,
+		number: item.iid,
+		title: item.title,
+		body: item.description,
+		state: item.state === "opened" ? "open" : "closed",
+		type,
+		createdAt: item.created_at,
+		updatedAt: item.updated_at,
+		author: item.author?.username,
+		labels: item.labels ?? [],
+		assignees: (item.assignees ?? []).map((assignee: any) => assignee.username),
+		milestone: item.milestone?.title,
+		commentCount: item.user_notes_count,
+		reactionCount: (item.upvotes ?? 0) + (item.downvotes ?? 0),
+	};
+}
+
+export interface GitLabGroupOptions {
+	apiUrl: string;
+	token?: string;
+	group: string;
+}
+
+// Lists the full paths of the non-archived projects in a group and its subgroups
+export async function listGitLabProjects(options: GitLabGroupOptions): Promise<string[]> {
+	const http = createHttpClient({
+		baseUrl: options.apiUrl,
+		name: "GitLab",
+		headers: options.token ? { "PRIVATE-TOKEN": options.token } : {},
+	});
+	const paths: string[] = [];
+	await http.paginate(
+		`/groups/${encodeURIComponent(options.group)}/projects?include_subgroups=true&archived=false&per_page=100`,
+		(page) => {
+			for (const project of page) {
+				if (!project.forked_from_project) paths.push(project.path_with_namespace);
+			}
+		},
+	);
+	return paths;
+}
+
+export function createGitLabSource(options: GitLabSourceOptions): Source {
+	const http = createHttpClient({
+		baseUrl: options.apiUrl,
+		name: "GitLab",
+		headers: options.token ? { "PRIVATE-TOKEN": options.token } : {},
+	});
+	const projectPath = `/projects/${encodeURIComponent(options.project)}`;
+	const label = options.label;
+
+	const fetch = async (query: FetchQuery): Promise<Item[]> => {
+		const { state, type, createdSince, createdUntil, updatedSince } = query;
+		const stages = createStageRunner(query.checkpoint);
+		const items = stages.items;
+		let prCount = items.filter((item) => item.type === "pr").length;
+		let issueCount = items.length - prCount;
+		const budget = () => formatRateLimit(http.rateLimit());
+
+		const fetchList = async (
+			resource: "merge_requests" | "issues",
+			itemType: "pr" | "issue",
+			cursor: string | null,
+			advance: (cursor: string | null) => void,
+		) => {
+			const params = new URLSearchParams({ scope: "all", per_page: "100", sort: "asc" });
+			// Merge requests can be closed or merged, so "closed" is filtered client-side
+			if (state === "open") params.set("state", "opened");
+			else if (state === "closed" && resource === "issues") params.set("state", "closed");
+			if (updatedSince) {
+				params.set("updated_after", updatedSince.toISOString());
+				params.set("order_by", "updated_at");
+			} else {
+				params.set("order_by", "created_at");
+			}
+			if (createdSince) params.set("created_after", createdSince.toISOString());
+			if (createdUntil) params.set("created_before", new Date(createdUntil.getTime() - 1).toISOString());
+			// labels requires all of them, several authors are matched client-side
+			if (query.labels?.length) params.set("labels", query.labels.join(","));
+			if (query.excludeLabels?.length) params.set("not[labels]", query.excludeLabels.join(","));
+			if (query.authors?.length === 1) params.set("author_username", query.authors[0]);
+
+			await http.paginate(cursor ?? `${projectPath}/${resource}?${params}`, (page, nextUrl) => {
+				for (const raw of page) {
+					const item = mapGitLabItem(raw, itemType);
+					if (state !== "all" && item.state !== state) continue;
+					items.push(item);
+					if (itemType === "pr") prCount++;
+					else issueCount++;
+				}
+				console.log(`[${label}] Fetched ${prCount} MRs, ${issueCount} issues${budget()}`);
+				advance(nextUrl);
+			});
+		};
+
+		// The list endpoint has no file information, so every MR's diffs are paged separately
+		const fetchDiffs = async (cursor: string | null, advance: (cursor: string | null) => void) => {
+			const mrs = items.filter((item) => item.type === "pr");
+			await forEachFrom(mrs, cursor, advance, async (mr, index) => {
+				const patches: FilePatch[] = [];
+				await http.paginate(`${projectPath}/merge_requests/${mr.number}/diffs?per_page=100`, (page) => {
+					for (const file of page) patches.push({ path: file.new_path, patch: file.diff });
+				});
+				mr.files = patches.map((file) => file.path);
+				mr.diff = summarizePatches(patches);
+				const done = index + 1;
+				if (done % 50 === 0 || done === mrs.length) {
+					console.log(`[${label}] Fetched diffs for ${done}/${mrs.length} MRs${budget()}`);
+				}
+			});
+		};
+
+		// Notes include MR diff discussions. System notes like "changed the description" are skipped.
+		const fetchComments = async (cursor: string | null, advance: (cursor: string | null) => void) => {
+			await forEachFrom(items, cursor, advance, async (item, index) => {
+				const resource = item.type === "pr" ? "merge_requests" : "issues";
+				const comments: ItemComment[] = [];
+				await http.paginate(`${projectPath}/${resource}/${item.number}/notes?sort=asc&per_page=100`, (page) => {
+					for (const note of page) {
+						if (note.system) continue;
+						if (!query.includeBotComments && (note.author?.bot || isBotAuthor(note.author?.username))) continue;
+						comments.push({ author: note.author?.username, body: note.body ?? "", createdAt: note.created_at });
+					}
+				});
+				item.comments = comments;
+				const done = index + 1;
+				if (done % 50 === 0 || done === items.length) {
+					console.log(`[${label}] Fetched comments for ${done}/${items.length} items${budget()}`);
+				}
+			});
+		};
+
+		if (type === "pr" || type === "all") {
+			await stages.run("merge_requests", (cursor, advance) => fetchList("merge_requests", "pr", cursor, advance));
+		}
+		if (type === "issue" || type === "all") {
+			await stages.run("issues", (cursor, advance) => fetchList("issues", "issue", cursor, advance));
+		}
+		if (query.includeDiffs) await stages.run("diffs", fetchDiffs);
+		if (query.includeComments) await stages.run("comments", fetchComments);
+		return items;
+	};
+
+	return { label, fetch };
+}
@@ -0,0 +1,154 @@
+// Small fetch wrapper shared by the GitHub, GitLab and Gitea clients
+
+export interface HttpClientOptions {
+	baseUrl: string;
+	headers: Record<string, string>;
+	// Name used in log and error messages, e.g. "GitHub"
+	name: string;
+}
+
+// Rate limit budget as of the last response
+export interface RateLimit {
+	remaining: number;
+	limit: number;
+	resetAt?: Date;
+}
+
+export interface HttpClient {
+	request(endpoint: string, init?: RequestInit): Promise<Response>;
+	getJson(endpoint: string): Promise<any>;
+	// Calls onPage with the parsed body of every page and the URL of the next one, following Link
+	// rel="next" headers to the end. Passing a saved next URL as the endpoint resumes there.
+	paginate(endpoint: string, onPage: (page: any, nextUrl: string | null) => void): Promise<void>;
+	rateLimit(): RateLimit | null;
+}
+
+export const MAX_ATTEMPTS = 5;
+
+// A request still rate limited after this many waits won't get through, e.g. a permanent 403 with a
+// Retry-After header or a budget exhausted for good
+export const MAX_RATE_LIMIT_WAITS = 10;
+
+export const sleep = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+function nextPageUrl(linkHeader: string | null): string | null {
+	if (!linkHeader) return null;
+	for (const part of linkHeader.split(",")) {
+		const match = part.match(/<([^>]+)>\s*;\s*rel="next"/);
+		if (match) return match[1];
+	}
+	return null;
+}
+
+// Milliseconds until the rate limit window resets, from x-ratelimit-reset (GitHub, Gitea) or ratelimit-reset (GitLab)
+export function resetDelay(response: Response): number {
+	const reset = Number(response.headers.get("x-ratelimit-reset") ?? response.headers.get("ratelimit-reset"));
+	if (!reset) return 60_000;
+	return Math.max(0, reset * 1000 - Date.now()) + 1000;
+}
+
+function readRateLimit(response: Response): RateLimit | null {
+	const header = (name: string) =>
+		response.headers.get(`x-ratelimit-${name}`) ?? response.headers.get(`ratelimit-${name}`);
+	const remaining = header("remaining");
+	const limit = header("limit");
+	if (remaining === null || limit === null) return null;
+	const reset = Number(header("reset"));
+	return { remaining: Number(remaining), limit: Number(limit), resetAt: reset ? new Date(reset * 1000) : undefined };
+}
+
+// Progress log suffix like " (rate limit: 4210/5000 left, resets at 14:05:00)", empty if unknown
+export function formatRateLimit(rate: RateLimit | null): string {
+	if (!rate) return "";
+	const reset = rate.resetAt ? `, resets at ${rate.resetAt.toLocaleTimeString()}` : "";
+	return ` (rate limit: ${rate.remaining}/${rate.limit} left${reset})`;
+}
+
+// Returns how long to wait before retrying a rate-limited response, or null if it is not rate limited
+function rateLimitDelay(response: Response): number | null {
+	if (response.status !== 403 && response.status !== 429) return null;
+	// Retry-After holds seconds or an HTTP date
+	const retryAfter = response.headers.get("retry-after");
+	if (retryAfter) {
+		const seconds = Number(retryAfter);
+		if (!Number.isNaN(seconds)) return seconds * 1000;
+		const date = Date.parse(retryAfter);
+		if (!Number.isNaN(date)) return Math.max(0, date - Date.now());
+	}
+	const remaining = response.headers.get("x-ratelimit-remaining") ?? response.headers.get("ratelimit-remaining");
+	if (remaining === "0" || response.status === 429) {
+		return resetDelay(response);
+	}
+	return null;
+}
+
+export function createHttpClient(options: HttpClientOptions): HttpClient {
+	const baseUrl = options.baseUrl.replace(/\/+$/, "");
+	let lastRateLimit: RateLimit | null = null;
+
+	const resolveUrl = (endpoint: string) =>
+		/^https?:\/\//.test(endpoint) ? endpoint : `${baseUrl}/${endpoint.replace(/^\/+/, "")}`;
+
+	const request = async (endpoint: string, init: RequestInit = {}, attempt = 1, waits = 0): Promise<Response> => {
+		const url = resolveUrl(endpoint);
+		const method = init.method ?? "GET";
+		let response: Response;
+		try {
+			response = await fetch(url, { ...init, headers: { ...options.headers, ...init.headers } });
+		} catch (error) {
+			if (attempt >= MAX_ATTEMPTS) {
+				throw new Error(`${options.name} ${method} ${url} failed: ${(error as Error).message}`);
+			}
+			const delay = 1000 * 2 ** (attempt - 1);
+			console.warn(`${options.name} request failed, retrying in ${delay}ms`, (error as Error).message);
+			await sleep(delay);
+			return request(url, init, attempt + 1, waits);
+		}
+
+		lastRateLimit = readRateLimit(response) ?? lastRateLimit;
+		const rateLimitWait = rateLimitDelay(response);
+		if (rateLimitWait !== null) {
+			if (waits >= MAX_RATE_LIMIT_WAITS) {
+				throw new Error(
+					`${options.name} ${method} ${url} still rate limited after ${MAX_RATE_LIMIT_WAITS} retries (${response.status})`,
+				);
+			}
+			console.warn(`${options.name} rate limit hit, waiting ${Math.ceil(rateLimitWait / 1000)}s before retrying`);
+			await sleep(rateLimitWait);
+			return request(url, init, attempt, waits + 1);
+		}
+
+		if (response.status >= 500 && attempt < MAX_ATTEMPTS) {
+			const delay = 1000 * 2 ** (attempt - 1);
+			console.warn(`${options.name} ${method} ${url} returned ${response.status}, retrying in ${delay}ms`);
+			await sleep(delay);
+			return request(url, init, attempt + 1, waits);
+		}
+
+		if (!response.ok) {
+			const text = await response.text();
+			throw new Error(
+				`${options.name} ${method} ${url} failed with ${response.status} ${response.statusText}: ${text}`,
+			);
+		}
+		return response;
+	};
+
+	return {
+		request: (endpoint, init) => request(endpoint, init),
+		getJson: async (endpoint) => {
+			const response = await request(endpoint);
+			return response.json();
+		},
+		paginate: async (endpoint, onPage) => {
+			let url: string | null = resolveUrl(endpoint);
+			while (url) {
+				const response = await request(url);
+				const next = nextPageUrl(response.headers.get("link"));
+				onPage(await response.json(), next);
+				url = next;
+			}
+		},
+		rateLimit: () => lastRateLimit,
+	};
+}
@@ -0,0 +1,298 @@
+import fs from "fs";
+import path from "path";
+import { type ItemComment, isBotAuthor } from "./comments.js";
+import type { Item } from "./embed.js";
+import type { FetchQuery, Source } from "./sources.js";
+
+export type ImportFormat = "jsonl" | "json" | "csv" | "jira";
+
+export const IMPORT_FORMATS: ImportFormat[] = ["jsonl", "json", "csv", "jira"];
+
+const MAPPED_FIELDS = [
+	"url",
+	"number",
+	"title",
+	"body",
+	"state",
+	"type",
+	"createdAt",
+	"updatedAt",
+	"author",
+	"labels",
+	"assignees",
+	"milestone",
+] as const;
+
+type MappedField = (typeof MAPPED_FIELDS)[number];
+
+// Item field -> column (CSV) or key (JSON, dots for nested keys). Unmapped fields use their own name.
+export type FieldMapping = Partial<Record<MappedField, string>>;
+
+export interface FileSourceOptions {
+	path: string;
+	// Detected from the extension and content when not set
+	format?: ImportFormat;
+	mapping: FieldMapping;
+}
+
+// Parses "title=Summary,body=Description" into a mapping, merged into an existing one
+export function parseFieldMapping(value: string, mapping: FieldMapping = {}): FieldMapping {
+	const result = { ...mapping };
+	for (const pair of value.split(",")) {
+		const index = pair.indexOf("=");
+		const field = pair.slice(0, index).trim() as MappedField;
+		const column = pair.slice(index + 1).trim();
+		if (index < 1 || !column || !MAPPED_FIELDS.includes(field)) {
+			throw new Error(
+				`Invalid field mapping: ${pair}. Use <field>=<column> with field one of ${MAPPED_FIELDS.join(", ")}.`,
+			);
+		}
+		result[field] = column;
+	}
+	return result;
+}
+
+// RFC 4180 CSV: quoted fields may contain commas, newlines and doubled quotes. Repeated headers,
+// like the multiple Labels columns of Jira's CSV export, are collected into arrays.
+function parseCsv(text: string): Record<string, string | string[]>[] {
+	const rows: string[][] = [];
+	let row: string[] = [];
+	let field = "";
+	let quoted = false;
+	const input = text.replace(/^\uFEFF/, "");
+	for (let i = 0; i < input.length; i += 1) {
+		const char = input[i];
+		if (quoted) {
+			if (char !== '"') {
+				field += char;
+			} else if (input[i + 1] === '"') {
+				field += '"';
+				i++;
+			} else {
+				quoted = false;
+			}
+		} else if (char === '"') {
+			quoted = true;
+		} else if (char === ",") {
+			row.push(field);
+			field = "";
+		} else if (char === "\n" || char === "\r") {
+			if (char === "\r" && input[i + 1] === "\n") i++;
+			row.push(field);
+			rows.push(row);
+			row = [];
+			field = "";
+		} else {
+			field += char;
+		}
+	}
+	if (field || row.length > 0) {
+		row.push(field);
+		rows.push(row);
+	}
+
+	const [header = [], ...records] = rows;
+	return records
+		.filter((values) => values.some(Boolean))
+		.map((values) => {
+			const record: Record<string, string | string[]> = {};
+			header.forEach((rawName, index) => {
+				const name = rawName.trim();
+				const value = values[index] ?? "";
+				const previous = record[name];
+				if (previous === undefined) record[name] = value;
+				else record[name] = [...(Array.isArray(previous) ? previous : [previous]), value].filter(Boolean);
+			});
+			return record;
+		});
+}
+
+// Exact key, then a case-insensitive match (so "labels" finds a "Labels" column), then a dotted path
+const getField = (record: any, key: string): any => {
+	if (key in record) return record[key];
+	const lower = key.toLowerCase();
+	const match = Object.keys(record).find((name) => name.toLowerCase() === lower);
+	if (match) return record[match];
+	return key.split(".").reduce((value, part) => (value == null ? undefined : value[part]), record);
+};
+
+const toText = (value: any): string | undefined => {
+	if (value == null || value === "") return undefined;
+	if (typeof value === "object") return undefined;
+	return String(value);
+};
+
+const toList = (value: any): string[] => {
+	if (value == null) return [];
+	const values = Array.isArray(value) ? value : String(value).split(/[,;]/);
+	return values
+		.map((entry) => (typeof entry === "object" ? (entry?.name ?? entry?.login ?? "") : String(entry)).trim())
+		.filter(Boolean);
+};
+
+const toIsoDate = (value: any): string | undefined => {
+	const text = toText(value);
+	if (!text) return undefined;
+	const time = Date.parse(text);
+	return Number.isNaN(time) ? undefined : new Date(time).toISOString();
+};
+
+// Numbers like 123, #123 or PROJ-123 become 123
+const toNumber = (value: any): number | undefined => {
+	const match = toText(value)?.match(/(\d+)$/);
+	return match ? Number(match[1]) : undefined;
+};
+
+const CLOSED_STATES = new Set([
+	"closed",
+	"done",
+	"resolved",
+	"solved",
+	"fixed",
+	"merged",
+	"completed",
+	"cancelled",
+	"canceled",
+	"rejected",
+	"duplicate",
+	"invalid",
+	"won't fix",
+	"wontfix",
+	"won't do",
+]);
+
+const normalizeState = (value: any): string | undefined => {
+	const text = toText(value)?.trim().toLowerCase();
+	if (!text) return undefined;
+	return CLOSED_STATES.has(text) ? "closed" : "open";
+};
+
+const normalizeType = (value: any): string => {
+	const text = toText(value)?.trim().toLowerCase() ?? "";
+	return /^(pr|mr)$|pull|merge/.test(text) ? "pr" : "issue";
+};
+
+function mapRecord(record: any, mapping: FieldMapping, fallbackUrl: string): Item {
+	const get = (field: MappedField) => getField(record, mapping[field] ?? field);
+	const number = toNumber(get("number"));
+	return {
+		url: toText(get("url")) ?? (number !== undefined ? fallbackUrl.replace(/#\d+$/, `#${number}`) : fallbackUrl),
+		number,
+		title: toText(get("title")) ?? "",
+		body: toText(get("body")) ?? null,
+		state: normalizeState(get("state")),
+		type: normalizeType(get("type")),
+		createdAt: toIsoDate(get("createdAt")),
+		updatedAt: toIsoDate(get("updatedAt")),
+		author: toText(get("author")),
+		labels: toList(get("labels")),
+		assignees: toList(get("assignees")),
+		milestone: toText(get("milestone")),
+	};
+}
+
+// Descriptions from Jira's v3 API are Atlassian Document Format trees, v2 returns plain text
+function jiraText(value: any): string | null {
+	if (value == null) return null;
+	if (typeof value === "string") return value;
+	const blocks: string[] = [];
+	const collect = (node: any): string => {
+		if (node.type === "text") return node.text ?? "";
+		const text = (node.content ?? []).map(collect).join("");
+		if (node.type === "paragraph" || node.type === "heading" || node.type === "codeBlock") {
+			blocks.push(text);
+			return "";
+		}
+		return text;
+	};
+	const rest = collect(value);
+	if (rest) blocks.push(rest);
+	return blocks.join("\n");
+}
+
+// Issues as returned by Jira's REST search (/rest/api/2/search), the usual JSON export
+function mapJiraIssue(issue: any, query: FetchQuery): Item {
+	const fields = issue.fields ?? {};
+	const origin = issue.self ? new URL(issue.self).origin : null;
+	const category = fields.status?.statusCategory?.key;
+	const item: Item = {
+		url: origin ? `${origin}/browse/${issue.key}` : issue.key,
+		number: toNumber(issue.key),
+		title: fields.summary ?? issue.key,
+		body: jiraText(fields.description),
+		state: category ? (category === "done" ? "closed" : "open") : normalizeState(fields.status?.name),
+		type: "issue",
+		createdAt: toIsoDate(fields.created),
+		updatedAt: toIsoDate(fields.updated),
+		author: fields.reporter?.displayName ?? fields.creator?.displayName,
+		labels: fields.labels ?? [],
+		assignees: fields.assignee ? [fields.assignee.displayName] : [],
+		milestone: fields.fixVersions?.[0]?.name,
+		commentCount: fields.comment?.total,
+		reactionCount: fields.votes?.votes,
+	};
+	if (query.includeComments && fields.comment?.comments) {
+		item.comments = fields.comment.comments
+			.filter((comment: any) => query.includeBotComments || !isBotAuthor(comment.author?.displayName))
+			.map(
+				(comment: any): ItemComment => ({
+					author: comment.author?.displayName,
+					body: jiraText(comment.body) ?? "",
+					createdAt: toIsoDate(comment.created),
+				}),
+			);
+	}
+	return item;
+}
+
+function detectFormat(filePath: string, content: string): ImportFormat {
+	const extension = path.extname(filePath).toLowerCase();
+	if (extension === ".csv") return "csv";
+	if (extension === ".jsonl" || extension === ".ndjson") return "jsonl";
+	const parsed = JSON.parse(content);
+	return Array.isArray(parsed?.issues) ? "jira" : "json";
+}
+
+// Reads items from a local JSONL, JSON, CSV or Jira export file instead of a forge API
+export function createFileSource(options: FileSourceOptions): Source {
+	const filePath = path.resolve(options.path);
+	// The path as given relative to the working directory, so export.csv files in different directories
+	// don't share a repo label, sync state and checkpoint
+	const label = path.relative(process.cwd(), filePath).split(path.sep).join("/") || path.basename(filePath);
+
+	const fetch = async (query: FetchQuery): Promise<Item[]> => {
+		const content = fs.readFileSync(filePath, "utf8");
+		const format = options.format ?? detectFormat(filePath, content);
+
+		let items: Item[];
+		if (format === "jira") {
+			const parsed = JSON.parse(content);
+			const issues: any[] = Array.isArray(parsed) ? parsed : parsed.issues;
+			items = issues.map((issue) => mapJiraIssue(issue, query));
+		} else {
+			const records: any[] =
+				format === "csv"
+					? parseCsv(content)
+					: format === "jsonl"
+						? content
+								.split("\n")
+								.filter((line) => line.trim())
+								.map((line) => JSON.parse(line))
+						: JSON.parse(content);
+			items = records.map((record, index) => mapRecord(record, options.mapping, `file://${filePath}#${index + 1}`));
+		}
+
+		// Files are cheap to re-read, so incremental runs get every item and only the other filters apply.
+		// Items without a state or creation date pass the state and --since filters.
+		const filtered = items.filter(
+			(item) =>
+				(query.type === "all" || item.type === query.type) &&
+				(query.state === "all" || !item.state || item.state === query.state) &&
+				(!query.createdSince || !item.createdAt || Date.parse(item.createdAt) >= query.createdSince.getTime()),
+		);
+		console.log(`[${label}] Read ${filtered.length} of ${items.length} items (${format})`);
+		return filtered;
+	};
+
+	return { label, fetch };
+}
@@ -0,0 +1,227 @@
+import { IGNORED_IDENTIFIERS } from "./diff.js";
+
+// Keyword labels for clusters with class-based TF-IDF: all items of a cluster count as one document, and
+// words that are frequent in it but rare in the other clusters describe it. Runs offline on titles and bodies.
+
+const KEYWORDS = 5;
+
+// A keyword has to appear in this many items of a cluster, one verbose item doesn't label it
+const MIN_ITEMS = 2;
+
+// Title words count double, titles say in a few words what an item is about
+const TITLE_WEIGHT = 2;
+
+// Common words, plus words of issue and PR template headings, which the cleanup doesn't catch in every
+// body and which embeddings files of older versions still have
+const STOP_WORDS = new Set([
+	"about",
+	"above",
+	"actual",
+	"additional",
+	"after",
+	"again",
+	"all",
+	"also",
+	"always",
+	"any",
+	"anything",
+	"are",
+	"because",
+	"been",
+	"before",
+	"behavior",
+	"behaviour",
+	"being",
+	"below",
+	"between",
+	"both",
+	"but",
+	"can",
+	"cannot",
+	"checklist",
+	"context",
+	"contributing",
+	"could",
+	"describe",
+	"description",
+	"did",
+	"does",
+	"doesn",
+	"doing",
+	"don",
+	"done",
+	"down",
+	"during",
+	"each",
+	"environment",
+	"even",
+	"ever",
+	"every",
+	"expected",
+	"few",
+	"get",
+	"gets",
+	"getting",
+	"got",
+	"had",
+	"has",
+	"have",
+	"having",
+	"her",
+	"here",
+	"him",
+	"his",
+	"how",
+	"however",
+	"http",
+	"https",
+	"information",
+	"instead",
+	"into",
+	"isn",
+	"its",
+	"just",
+	"know",
+	"like",
+	"make",
+	"makes",
+	"many",
+	"may",
+	"might",
+	"more",
+	"most",
+	"motivation",
+	"much",
+	"must",
+	"need",
+	"needs",
+	"now",
+	"off",
+	"once",
+	"one",
+	"only",
+	"other",
+	"our",
+	"out",
+	"over",
+	"own",
+	"please",
+	"proposed",
+	"reproduce",
+	"reproduction",
+	"response",
+	"same",
+	"screenshots",
+	"see",
+	"seems",
+	"she",
+	"should",
+	"since",
+	"some",
+	"something",
+	"steps",
+	"still",
+	"such",
+	"summary",
+	"than",
+	"that",
+	"their",
+	"them",
+	"then",
+	"there",
+	"these",
+	"they",
+	"thing",
+	"things",
+	"those",
+	"through",
+	"too",
+	"under",
+	"until",
+	"use",
+	"used",
+	"using",
+	"version",
+	"very",
+	"was",
+	"wasn",
+	"way",
+	"were",
+	"what",
+	"when",
+	"where",
+	"which",
+	"who",
+	"why",
+	"will",
+	"with",
+	"without",
+	"won",
+	"would",
+	"www",
+	"yet",
+	"you",
+	"your",
+]);
+
+// Code identifiers like readFileSync or max_tokens keep their case, other words are lowercased so
+// "Crash" and "crash" count as one. Numbers, hashes and URLs say nothing about a topic.
+const itemWords = (text: string): Set<string> => {
+	const words = new Set<string>();
+	const stripped = text.replace(/<!--[\s\S]*?-->/g, " ").replace(/https?:\/\/\S+/g, " ");
+	for (const [match] of stripped.matchAll(/[A-Za-z_$][A-Za-z0-9_$]*/g)) {
+		const word = match.replace(/^[_$]+|[_$]+$/g, "");
+		if (word.length < 3 || /^[0-9a-f]{7,}$/i.test(word)) continue;
+		const lower = word.toLowerCase();
+		if (STOP_WORDS.has(lower) || IGNORED_IDENTIFIERS.has(lower)) continue;
+		words.add(/[a-z][A-Z]|[A-Za-z]_[A-Za-z]/.test(word) ? word : lower);
+	}
+	return words;
+};
+
+// Top keywords of each cluster, indexed by cluster id. Items in no cluster (-1) form a class of their own,
+// so words common among them don't label a cluster either.
+export function clusterKeywords(items: { title: string; body?: string | null }[], clusterIds: number[]): string[][] {
+	const clusters = clusterIds.reduce((max, id) => Math.max(max, id + 1), 0);
+	if (clusters === 0) return [];
+	const weights = Array.from({ length: clusters + 1 }, () => new Map<string, number>());
+	const itemCounts = Array.from({ length: clusters + 1 }, () => new Map<string, number>());
+	const totals = new Array<number>(clusters + 1).fill(0);
+	const frequency = new Map<string, number>();
+	items.forEach((item, index) => {
+		const cluster = clusterIds[index] >= 0 ? clusterIds[index] : clusters;
+		const title = itemWords(item.title);
+		const words = new Set([...title, ...itemWords(item.body ?? "")]);
+		for (const word of words) {
+			const weight = title.has(word) ? TITLE_WEIGHT : 1;
+			weights[cluster].set(word, (weights[cluster].get(word) ?? 0) + weight);
+			itemCounts[cluster].set(word, (itemCounts[cluster].get(word) ?? 0) + 1);
+			frequency.set(word, (frequency.get(word) ?? 0) + weight);
+			totals[cluster] += weight;
+		}
+	});
+
+	// c-TF-IDF as in BERTopic: word frequency in the cluster times log(1 + average cluster size / word frequency)
+	const average = totals.reduce((sum, total) => sum + total, 0) / (clusters + 1);
+	return weights.slice(0, clusters).map((words, cluster) => {
+		const scored = Array.from(words.entries())
+			.filter(([word]) => (itemCounts[cluster].get(word) ?? 0) >= MIN_ITEMS)
+			.map(([word, weight]) => ({
+				word,
+				score: (weight / totals[cluster]) * Math.log(1 + average / frequency.get(word)!),
+			}))
+			.sort((a, b) => b.score - a.score || a.word.localeCompare(b.word));
+		// Plurals repeat a keyword, "crash" and "crashes" only keep the better one
+		const keywords: string[] = [];
+		const stems = new Set<string>();
+		for (const { word } of scored) {
+			const lower = word.toLowerCase();
+			const stem = lower.endsWith("ss") ? lower : lower.replace(/(?:(?<=s|x|ch|sh)es|s)$/, "");
+			if (stems.has(stem)) continue;
+			stems.add(stem);
+			keywords.push(word);
+			if (keywords.length === KEYWORDS) break;
+		}
+		return keywords;
+	});
+}
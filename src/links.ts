@@ -0,0 +1,77 @@
+import type { Item } from "./embed.js";
+
+// Links between items: "Fixes #12" and "Duplicate of #45" references in bodies and comments, plus the
+// closing references and cross-references forges track themselves
+
+export type LinkKind = "closes" | "duplicate" | "mentions";
+
+export interface ItemLink {
+	kind: LinkKind;
+	// Repo label of the linked item, like Item.repo
+	repo: string;
+	number: number;
+	url?: string;
+	// The linked item points at this one, e.g. it closes, duplicates or mentions this item
+	incoming?: boolean;
+}
+
+// #12, owner/repo#12, or an issue, PR or merge request URL on any forge
+const REFERENCE =
+	/(?:(https?:\/\/([^\s/]+)\/([^\s#?]+?)(?:\/-)?\/(?:issues|pulls?|merge_requests)\/(\d+))|(?<![\w/])([\w.-]+\/[\w.-]+)?#(\d+))\b/
+		.source;
+
+const LINK_PATTERNS: { kind: LinkKind; pattern: RegExp }[] = [
+	{ kind: "closes", pattern: new RegExp(`\\b(?:close[sd]?|fix(?:e[sd])?|resolve[sd]?):?\\s+${REFERENCE}`, "gi") },
+	{ kind: "duplicate", pattern: new RegExp(`\\bduplicate\\s+of:?\\s+${REFERENCE}`, "gi") },
+];
+
+// Repo labels only carry a host outside github.com, see repoLabel. Short owner/repo references keep the host
+// of the repo they appear in.
+const labelFromUrl = (host: string, repoPath: string) =>
+	host.toLowerCase() === "github.com" ? repoPath : `${host}/${repoPath}`;
+
+const hostPrefix = (repo: string) => {
+	const segments = repo.split("/");
+	return segments.length > 2 ? `${segments[0]}/` : "";
+};
+
+export function parseTextLinks(text: string, repo: string): ItemLink[] {
+	const links: ItemLink[] = [];
+	for (const { kind, pattern } of LINK_PATTERNS) {
+		for (const match of text.matchAll(pattern)) {
+			const [, url, host, repoPath, urlNumber, shortRepo, shortNumber] = match;
+			if (url) {
+				links.push({ kind, repo: labelFromUrl(host, repoPath), number: Number(urlNumber), url });
+			} else {
+				links.push({ kind, repo: shortRepo ? hostPrefix(repo) + shortRepo : repo, number: Number(shortNumber) });
+			}
+		}
+	}
+	return links;
+}
+
+const linkKey = (link: ItemLink) => `${link.kind}:${link.incoming ? "<" : ">"}:${link.repo}#${link.number}`;
+
+// Adds links to the item, skipping ones it already has and links to itself
+export function addLinks(item: Item, repo: string, links: ItemLink[]): void {
+	const existing = item.links ?? [];
+	const keys = new Set(existing.map(linkKey));
+	for (const link of links) {
+		if (link.repo === repo && link.number === item.number) continue;
+		const key = linkKey(link);
+		if (keys.has(key)) continue;
+		keys.add(key);
+		existing.push(link);
+	}
+	if (existing.length > 0) item.links = existing;
+}
+
+// Links written in the body and the fetched comments
+export function addTextLinks(item: Item, repo: string): void {
+	const texts = [item.body ?? "", ...(item.comments ?? []).map((comment) => comment.body)];
+	addLinks(
+		item,
+		repo,
+		texts.flatMap((text) => parseTextLinks(text, repo)),
+	);
+}
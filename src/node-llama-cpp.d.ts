@@ -3,19 +3,42 @@
 declare module "node-llama-cpp" {
 	export function getLlama(): Promise<Llama>;
 
-	interface Llama {
+	export type Token = number;
+
+	export interface Llama {
 		loadModel(options: { modelPath: string }): Promise<LlamaModel>;
 	}
 
-	interface LlamaModel {
-		createEmbeddingContext(): Promise<LlamaEmbeddingContext>;
+	export interface LlamaModel {
+		readonly trainContextSize: number;
+		readonly tokens: LlamaModelTokens;
+		tokenize(text: string): Token[];
+		detokenize(tokens: readonly Token[]): string;
+		createEmbeddingContext(options?: LlamaEmbeddingContextOptions): Promise<LlamaEmbeddingContext>;
+	}
+
+	// Special tokens of the model, null when it has none
+	export interface LlamaModelTokens {
+		readonly bos: Token | null;
+		readonly eos: Token | null;
+		readonly sep: Token | null;
+	}
+
+	export interface LlamaEmbeddingContextOptions {
+		// Tokens per input, defaults to the model's training context size
+		contextSize?: number;
+		// Tokens processed at once, defaults to the context size
+		batchSize?: number;
+		// CPU threads, defaults to the number of cores
+		threads?: number;
 	}
 
-	interface LlamaEmbeddingContext {
+	export interface LlamaEmbeddingContext {
 		getEmbeddingFor(input: string): Promise<LlamaEmbedding>;
+		dispose(): Promise<void>;
 	}
 
-	interface LlamaEmbedding {
+	export interface LlamaEmbedding {
 		vector: readonly number[];
 	}
 }
@@ -0,0 +1,197 @@
+import type { FetchCheckpoint } from "./checkpoint.js";
+import { isBotAuthor } from "./comments.js";
+import type { Item } from "./embed.js";
+import { createGiteaSource, listGiteaRepos } from "./gitea.js";
+import {
+	createGhCliClient,
+	createGitHubClient,
+	createGitHubSource,
+	DEFAULT_GITHUB_API_URL,
+	DEFAULT_GITHUB_HOST,
+	type GitHubApi,
+	listGitHubRepos,
+} from "./github.js";
+import { createGitLabSource, listGitLabProjects } from "./gitlab.js";
+
+export type ItemState = "open" | "closed" | "all";
+export type ItemType = "pr" | "issue" | "all";
+export type Provider = "github" | "gitlab" | "gitea";
+
+export const PROVIDERS: Provider[] = ["github", "gitlab", "gitea"];
+
+// Filters adapters push down into their API queries where supported. matchesFilters applies all of
+// them client-side, so adapters may return a superset.
+export interface ItemFilters {
+	// Only items created at or after this time
+	createdSince?: Date;
+	// Only items created before this time
+	createdUntil?: Date;
+	// Only items updated at or after this time, also used by incremental fetches
+	updatedSince?: Date;
+	// Items need every one of labels and none of excludeLabels, compared case-insensitively
+	labels?: string[];
+	excludeLabels?: string[];
+	// Items by any of these authors
+	authors?: string[];
+	excludeBots?: boolean;
+}
+
+export interface FetchQuery extends ItemFilters {
+	state: ItemState;
+	type: ItemType;
+	// Page through every changed file of each PR and attach a diff summary
+	includeDiffs?: boolean;
+	// Fetch issue comments and PR review comments, without bot comments unless includeBotComments is set
+	includeComments?: boolean;
+	includeBotComments?: boolean;
+	// Fetch closing references and cross-references tracked by the forge (GitHub only)
+	includeLinks?: boolean;
+	// Saves progress while fetching and resumes an interrupted fetch
+	checkpoint?: FetchCheckpoint;
+}
+
+// Date filters only apply to items that have the date
+export function matchesFilters(item: Item, filters: ItemFilters): boolean {
+	const time = (value?: string) => (value ? Date.parse(value) : Number.NaN);
+	const created = time(item.createdAt);
+	const updated = time(item.updatedAt);
+	if (filters.createdSince && created < filters.createdSince.getTime()) return false;
+	if (filters.createdUntil && created >= filters.createdUntil.getTime()) return false;
+	if (filters.updatedSince && updated < filters.updatedSince.getTime()) return false;
+
+	const itemLabels = new Set((item.labels ?? []).map((label) => label.toLowerCase()));
+	if (filters.labels?.some((label) => !itemLabels.has(label.toLowerCase()))) return false;
+	if (filters.excludeLabels?.some((label) => itemLabels.has(label.toLowerCase()))) return false;
+
+	const author = item.author?.toLowerCase();
+	if (filters.authors?.length && !filters.authors.some((name) => name.toLowerCase() === author)) return false;
+	if (filters.excludeBots && isBotAuthor(item.author)) return false;
+	return true;
+}
+
+// A place items are fetched from. Every adapter maps its PRs/MRs and issues into the shared Item shape.
+export interface Source {
+	label: string;
+	fetch(query: FetchQuery): Promise<Item[]>;
+}
+
+export interface RepoRef {
+	provider: Provider;
+	host: string;
+	// GitLab owners can be nested group paths like "group/subgroup"
+	owner: string;
+	name: string;
+}
+
+const DEFAULT_HOSTS: Record<Provider, string> = {
+	github: DEFAULT_GITHUB_HOST,
+	gitlab: "gitlab.com",
+	gitea: "codeberg.org",
+};
+
+function detectProvider(host: string): Provider | null {
+	const lower = host.toLowerCase();
+	if (lower === "github.com" || lower.startsWith("github.")) return "github";
+	if (lower === "gitlab.com" || lower.includes("gitlab")) return "gitlab";
+	if (lower === "codeberg.org" || lower.includes("gitea") || lower.includes("forgejo")) return "gitea";
+	return null;
+}
+
+// Accepts owner/repo, host/owner/repo, https://host/owner/repo[.git] and git@host:owner/repo.git.
+// A name of * (owner/*) stands for every repo of the owner, see expandRepo.
+// Without a --provider, the provider is detected from the host.
+export function parseRepo(repo: string, provider?: Provider): RepoRef {
+	const trimmed = repo.replace(/\s+/g, "").replace(/\.git$/i, "");
+
+	let host: string | null = null;
+	let repoPath: string;
+	const urlMatch = trimmed.match(/^(?:[a-z+]+:\/\/)?(?:[^@/]+@)?([^/:]+\.[^/:]+(?::\d+)?)[/:](.+)$/i);
+	if (urlMatch) {
+		host = urlMatch[1];
+		repoPath = urlMatch[2];
+	} else {
+		repoPath = trimmed;
+	}
+
+	// Drop trailing UI paths like /-/merge_requests (GitLab) or /pulls, /issues (GitHub, Gitea)
+	repoPath = repoPath.split("/-/")[0].replace(/\/+$/, "");
+	let segments = repoPath.split("/").filter(Boolean);
+
+	const resolvedProvider = provider ?? (host ? detectProvider(host) : "github");
+	if (!resolvedProvider) {
+		throw new Error(`Could not detect the provider for ${host}. Pass --provider ${PROVIDERS.join("|")}.`);
+	}
+	if (resolvedProvider !== "gitlab") segments = segments.slice(0, 2);
+	if (segments.length < 2) {
+		throw new Error(`Could not parse repo: ${repo}. Use https://host/owner/repo or owner/repo.`);
+	}
+
+	return {
+		provider: resolvedProvider,
+		host: host ?? DEFAULT_HOSTS[resolvedProvider],
+		owner: segments.slice(0, -1).join("/"),
+		name: segments[segments.length - 1],
+	};
+}
+
+export function repoLabel(ref: RepoRef): string {
+	const path = `${ref.owner}/${ref.name}`;
+	return ref.host === DEFAULT_GITHUB_HOST ? path : `${ref.host}/${path}`;
+}
+
+const gitlabToken = () => process.env.GITLAB_TOKEN;
+const giteaToken = () => process.env.GITEA_TOKEN || process.env.FORGEJO_TOKEN;
+
+function defaultApiUrl(ref: RepoRef): string {
+	if (ref.provider === "gitlab") return `https://${ref.host}/api/v4`;
+	if (ref.provider === "gitea") return `https://${ref.host}/api/v1`;
+	return (
+		process.env.GITHUB_API_URL ??
+		(ref.host === DEFAULT_GITHUB_HOST ? DEFAULT_GITHUB_API_URL : `https://${ref.host}/api/v3`)
+	);
+}
+
+let warnedGhFallback = false;
+
+function createGitHubApi(ref: RepoRef, apiUrl: string): GitHubApi {
+	const token = process.env.GITHUB_TOKEN || process.env.GH_TOKEN;
+	if (token) return createGitHubClient({ token, apiUrl });
+	if (!warnedGhFallback) {
+		warnedGhFallback = true;
+		console.log("GITHUB_TOKEN is not set, using the gh CLI");
+	}
+	return createGhCliClient(ref.host === DEFAULT_GITHUB_HOST ? undefined : ref.host);
+}
+
+// Resolves an owner/* wildcard into one ref per repository. Other refs are returned as is.
+export async function expandRepo(ref: RepoRef, apiUrl?: string): Promise<RepoRef[]> {
+	if (ref.name !== "*") return [ref];
+	const url = apiUrl ?? defaultApiUrl(ref);
+
+	if (ref.provider === "gitlab") {
+		const paths = await listGitLabProjects({ apiUrl: url, token: gitlabToken(), group: ref.owner });
+		return paths.map((projectPath) => {
+			const index = projectPath.lastIndexOf("/");
+			return { ...ref, owner: projectPath.slice(0, index), name: projectPath.slice(index + 1) };
+		});
+	}
+
+	const names =
+		ref.provider === "gitea"
+			? await listGiteaRepos({ apiUrl: url, token: giteaToken(), owner: ref.owner })
+			: await listGitHubRepos(createGitHubApi(ref, url), ref.owner);
+	return names.map((name) => ({ ...ref, name }));
+}
+
+// Creates the source for a repo. Tokens come from GITHUB_TOKEN/GH_TOKEN, GITLAB_TOKEN and GITEA_TOKEN/FORGEJO_TOKEN.
+export function createSource(ref: RepoRef, apiUrl?: string): Source {
+	const label = repoLabel(ref);
+	const url = apiUrl ?? defaultApiUrl(ref);
+	if (ref.provider === "gitlab") {
+		return createGitLabSource({ apiUrl: url, token: gitlabToken(), project: `${ref.owner}/${ref.name}`, label });
+	}
+	if (ref.provider === "gitea") {
+		return createGiteaSource({ apiUrl: url, token: giteaToken(), owner: ref.owner, name: ref.name, label });
+	}
+	return createGitHubSource(createGitHubApi(ref, url), ref.owner, ref.name, label);
+}
@@ -1,33 +1,104 @@
 #!/usr/bin/env node
 
-import { spawn } from "child_process";
 import fs from "fs";
 import path from "path";
-import readline from "readline";
-import { type BuildOptions, build } from "./build.js";
+import { type BuildOptions, build, SEARCH_PROVIDERS } from "./build.js";
+import { defaultCacheDir } from "./cache.js";
+import { openCheckpointStore } from "./checkpoint.js";
+import { POOLINGS, type Pooling } from "./chunks.js";
+import { parseStripPattern } from "./clean.js";
+import { dupes, parseDupesArgs } from "./dupes.js";
 import { type EmbedOptions, embed, type Item } from "./embed.js";
-
-type ItemState = "open" | "closed" | "all";
-type ItemType = "pr" | "issue" | "all";
+import { EMBEDDING_PROVIDERS, type EmbeddingProviderName } from "./embedders.js";
+import { type FieldWeights, parseWeights } from "./fields.js";
+import {
+	createFileSource,
+	type FieldMapping,
+	IMPORT_FORMATS,
+	type ImportFormat,
+	parseFieldMapping,
+} from "./importer.js";
+import { addTextLinks } from "./links.js";
+import {
+	createSource,
+	expandRepo,
+	type FetchQuery,
+	type ItemState,
+	type ItemType,
+	matchesFilters,
+	PROVIDERS,
+	type Provider,
+	parseRepo,
+	type RepoRef,
+	repoLabel,
+	type Source,
+} from "./sources.js";
+import { VECTOR_ENCODINGS, type VectorEncoding } from "./vectors.js";
 
 interface TriageOptions {
-	repo: string | null;
+	repos: string[];
+	imports: string[];
+	importFormat?: ImportFormat;
+	fieldMapping: FieldMapping;
 	state: ItemState;
 	type: ItemType;
 	since?: string;
+	until?: string;
+	updatedSince?: string;
+	labels: string[];
+	excludeLabels: string[];
+	authors: string[];
+	excludeBots: boolean;
+	incremental: boolean;
+	diffs: boolean;
+	comments: boolean;
+	botComments: boolean;
+	links: boolean;
+	maxComments: number;
+	commentChars: number;
+	sidebarComments: number;
+	provider?: Provider;
+	apiUrl?: string;
 	output: string;
 	embeddings: string;
+	// Embedding cache directory, undefined with --no-cache
+	cacheDir?: string;
 	html: string;
-	model: string;
+	// Unset: local with --local-model, openai otherwise
+	embeddingProvider?: EmbeddingProviderName;
+	// Provider default when unset
+	model?: string;
+	baseUrl?: string;
+	dimensions?: number;
+	documentPrefix?: string;
+	queryPrefix?: string;
+	contextSize?: number;
+	threads?: number;
+	sequences?: number;
 	batch: number;
+	batchTokens?: number;
+	concurrency: number;
 	maxChars: number;
 	bodyChars: number;
 	neighbors: number;
 	minDist: number;
 	spread: number;
+	minClusterSize: number;
 	force: boolean;
 	search: boolean;
 	localModel?: string;
+	boilerplateThreshold: number;
+	stripPatterns: RegExp[];
+	showText: boolean;
+	dryRun: boolean;
+	chunkChars?: number;
+	chunkOverlap: number;
+	maxChunks: number;
+	pooling: Pooling;
+	keepChunks: boolean;
+	weights?: FieldWeights;
+	vectorEncoding?: VectorEncoding;
+	searchEncoding: VectorEncoding;
 }
 
 interface SinceFilter {
@@ -43,12 +114,13 @@ function formatLocalYmd(date: Date): string {
 	return `${y}-${m}-${d}`;
 }
 
-function parseSinceValue(value: string): SinceFilter {
+// Parses --since style values into the start of that local day. flag is used in error messages.
+function parseSinceValue(value: string, flag = "--since"): SinceFilter {
 	const relativeMatch = value.match(/^(\d+)d$/i);
 	if (relativeMatch) {
 		const days = Number(relativeMatch[1]);
 		if (!Number.isInteger(days) || days < 1) {
-			throw new Error("--since relative format must be a positive day count like 14d");
+			throw new Error(`${flag} relative format must be a positive day count like 14d`);
 		}
 		const cutoff = new Date();
 		cutoff.setHours(0, 0, 0, 0);
@@ -67,7 +139,7 @@ function parseSinceValue(value: string): SinceFilter {
 		const day = Number(absoluteMatch[3]);
 		const cutoff = new Date(year, month - 1, day, 0, 0, 0, 0);
 		if (cutoff.getFullYear() !== year || cutoff.getMonth() !== month - 1 || cutoff.getDate() !== day) {
-			throw new Error(`Invalid --since date: ${value}. Use YYYY-MM-DD.`);
+			throw new Error(`Invalid ${flag} date: ${value}. Use YYYY-MM-DD.`);
 		}
 		return {
 			raw: value,
@@ -76,244 +148,263 @@ function parseSinceValue(value: string): SinceFilter {
 		};
 	}
 
-	throw new Error("Invalid --since value. Use YYYY-MM-DD or <days>d (e.g., 14d, 30d)");
+	throw new Error(`Invalid ${flag} value. Use YYYY-MM-DD or <days>d (e.g., 14d, 30d)`);
+}
+
+// --until includes its day, so the cutoff is the start of the next day
+function parseUntilValue(value: string): SinceFilter {
+	const day = parseSinceValue(value, "--until");
+	const cutoff = new Date(day.cutoff);
+	cutoff.setDate(cutoff.getDate() + 1);
+	return { ...day, cutoff };
+}
+
+interface SyncState {
+	state: ItemState;
+	type: ItemType;
+	diffs?: boolean;
+	comments?: boolean;
+	botComments?: boolean;
+	links?: boolean;
+	// The label, author, bot and date filters as given on the command line
+	filters?: string;
+	// Last sync time per repo label
+	repos: Record<string, string>;
 }
 
-function parseRepo(repo: string): { owner: string; name: string } | null {
-	const trimmed = repo.replace(/\s+/g, "");
-	const match = trimmed.match(/github\.com[/:]([^/]+)\/([^/.]+)(?:\.git)?/i);
-	if (match) {
-		return { owner: match[1], name: match[2] };
+function syncStatePath(outputPath: string): string {
+	return outputPath.replace(/(\.[^./\\]+)?$/, "-sync.json");
+}
+
+function readSyncState(outputPath: string): SyncState | null {
+	const statePath = syncStatePath(outputPath);
+	if (!fs.existsSync(outputPath) || !fs.existsSync(statePath)) return null;
+	try {
+		const syncState: SyncState = JSON.parse(fs.readFileSync(statePath, "utf8"));
+		// Sync files from before multi-repo support have no per-repo times
+		return syncState.repos ? syncState : null;
+	} catch {
+		return null;
 	}
-	if (trimmed.includes("/")) {
-		const [owner, name] = trimmed.split("/");
-		if (owner && name) return { owner, name };
+}
+
+interface MergeResult {
+	items: Item[];
+	added: number;
+	updated: number;
+}
+
+// Items already in the file are updated in place even if they no longer match --state,
+// so transitions like open -> closed stay visible. New items must match the filter.
+function mergeItems(existing: Item[], updates: Item[], state: ItemState): MergeResult {
+	const byUrl = new Map<string, number>();
+	const items = existing.slice();
+	items.forEach((item, index) => {
+		byUrl.set(item.url, index);
+	});
+
+	let added = 0;
+	let updated = 0;
+	for (const item of updates) {
+		const index = byUrl.get(item.url);
+		if (index !== undefined) {
+			if (items[index].updatedAt !== item.updatedAt || items[index].state !== item.state) updated++;
+			items[index] = item;
+		} else if (state === "all" || item.state === state) {
+			byUrl.set(item.url, items.length);
+			items.push(item);
+			added++;
+		}
 	}
-	return null;
+	return { items, added, updated };
 }
 
 interface FetchResult {
 	total: number;
 	prs: number;
 	issues: number;
+	added: number;
+	updated: number;
+}
+
+// Everything about a fetch except its date range
+// updatedSince is the --updated-since cutoff, incremental fetches move it up to the last sync.
+type FetchSettings = Omit<FetchQuery, "createdSince" | "checkpoint">;
+
+function checkpointPath(outputPath: string): string {
+	return outputPath.replace(/(\.[^./\\]+)?$/, "-checkpoint.json");
+}
+
+// Stages that restart after an interruption can return an item twice, the later copy wins
+function dedupeByUrl(items: Item[]): Item[] {
+	const byUrl = new Map<string, Item>();
+	for (const item of items) byUrl.set(item.url, item);
+	return Array.from(byUrl.values());
 }
 
+// Fetches every source into one items file. Sources with a sync time in previousSync are fetched
+// incrementally and merged into their existing items, the others are fetched in full.
+// Progress is checkpointed, so a failed or interrupted run resumes where it stopped when run again.
 async function fetchItems(
-	owner: string,
-	name: string,
-	state: ItemState,
-	type: ItemType,
+	sources: Source[],
+	settings: FetchSettings,
 	outputPath: string,
+	filtersKey: string,
 	sinceFilter?: SinceFilter,
+	previousSync?: SyncState | null,
 ): Promise<FetchResult> {
 	fs.mkdirSync(path.dirname(outputPath), { recursive: true });
 
-	const repoLabel = `${owner}/${name}`;
-	const items: Item[] = [];
-	let prCount = 0;
-	let issueCount = 0;
-
-	// Helper to stream JSON objects from gh command
-	const streamGhJson = async (args: string[], onData: (item: any) => void) => {
-		const gh = spawn("gh", args, {
-			stdio: ["ignore", "pipe", "inherit"],
-		});
-
-		const rl = readline.createInterface({
-			input: gh.stdout!,
-			crlfDelay: Number.POSITIVE_INFINITY,
-		});
-
-		const readPromise = (async () => {
-			for await (const line of rl) {
-				const trimmed = line.trim();
-				if (!trimmed) continue;
-				try {
-					const item = JSON.parse(trimmed);
-					onData(item);
-				} catch {
-					// skip invalid JSON
-				}
-			}
-		})();
-
-		const exitPromise = new Promise<void>((resolve, reject) => {
-			gh.on("close", (code) => {
-				if (code === 0) resolve();
-				else reject(new Error(`gh exited with code ${code}`));
-			});
-			gh.on("error", reject);
-		});
-
-		await Promise.all([readPromise, exitPromise]);
+	const isIncremental = (source: Source) => previousSync?.repos[source.label] !== undefined;
+	const incrementalRepos = new Set(sources.filter(isIncremental).map((source) => source.label));
+	const existing: Item[] = incrementalRepos.size > 0 ? JSON.parse(fs.readFileSync(outputPath, "utf8")) : [];
+	// Items of repos that are no longer requested or are refetched in full are dropped
+	let result = existing.filter((item) => item.repo !== undefined && incrementalRepos.has(item.repo));
+
+	const { state, type } = settings;
+	const syncState: SyncState = {
+		state,
+		type,
+		diffs: settings.includeDiffs,
+		comments: settings.includeComments,
+		botComments: settings.includeBotComments,
+		links: settings.includeLinks,
+		filters: filtersKey,
+		repos: {},
 	};
 
-	const fetchWithSinceSearch = async (itemType: "pr" | "issue") => {
-		if (!sinceFilter) return;
-
-		const statesToFetch: Array<"open" | "closed"> = state === "all" ? ["open", "closed"] : [state];
-
-		for (const stateValue of statesToFetch) {
-			const jsonFields =
-				itemType === "pr" ? "number,title,body,url,state" : "number,title,body,url,state,isPullRequest";
-			const jqFilter =
-				itemType === "pr"
-					? '.[] | {url, number, title, body, state: (.state | ascii_downcase), type: "pr"}'
-					: '.[] | select(.isPullRequest == false) | {url, number, title, body, state: (.state | ascii_downcase), type: "issue"}';
-
-			const args = [
-				"search",
-				itemType === "pr" ? "prs" : "issues",
-				"--repo",
-				repoLabel,
-				"--state",
-				stateValue,
-				"--created",
-				`>=${sinceFilter.cutoffYmd}`,
-				"--sort",
-				"created",
-				"--order",
-				"desc",
-				"--limit",
-				"1000",
-				"--json",
-				jsonFields,
-				"--jq",
-				jqFilter,
-			];
-
-			await streamGhJson(args, (item) => {
-				items.push(item);
-				if (itemType === "pr") prCount++;
-				else issueCount++;
-				const total = prCount + issueCount;
-				if (total % 200 === 0) {
-					console.log(`[${repoLabel}] Fetched ${prCount} PRs, ${issueCount} issues`);
-				}
-			});
-		}
-
-		console.log(`[${repoLabel}] Fetched ${prCount} PRs, ${issueCount} issues`);
+	// A checkpoint only resumes a run with the same settings, cutoff and previous sync times
+	const checkpointKey = JSON.stringify({ settings, since: sinceFilter?.cutoff, synced: previousSync?.repos ?? null });
+	const checkpoints = openCheckpointStore(checkpointPath(outputPath), checkpointKey);
+	const onInterrupt = () => {
+		checkpoints.flush();
+		console.log(`\nInterrupted. Progress was saved, run the same command again to resume.`);
+		process.exit(130);
 	};
-
-	// Helper for GraphQL pagination of PRs
-	const fetchPrsGraphql = async () => {
-		const graphqlStates =
-			state === "open" ? "[OPEN]" : state === "closed" ? "[CLOSED, MERGED]" : "[OPEN, CLOSED, MERGED]";
-
-		const graphqlQuery = `
-			query($owner: String!, $name: String!, $endCursor: String) {
-				repository(owner: $owner, name: $name) {
-					pullRequests(first: 100, after: $endCursor, states: ${graphqlStates}) {
-						pageInfo {
-							hasNextPage
-							endCursor
-						}
-						nodes {
-							number
-							title
-							body
-							url
-							state
-							files(first: 20) {
-								nodes {
-									path
-								}
-							}
-						}
-					}
-				}
-			}
-		`;
-
-		// .data.repository.pullRequests.nodes[] | {number, title, body, url, state: .state | ascii_downcase, type: "pr", files: [.files.nodes[].path]}
-		const jqFilter =
-			'.data.repository.pullRequests.nodes[] | {number, title, body, url, state: (.state | ascii_downcase), type: "pr", files: [.files.nodes[].path]}';
-
-		const args = [
-			"api",
-			"graphql",
-			"--paginate",
-			"-f",
-			`query=${graphqlQuery}`,
-			"-F",
-			`owner=${owner}`,
-			"-F",
-			`name=${name}`,
-			"--jq",
-			jqFilter,
-		];
-
-		await streamGhJson(args, (item) => {
-			if (item.state === "merged") item.state = "closed";
-			items.push(item);
-			prCount++;
-			const total = prCount + issueCount;
-			if (total % 100 === 0) {
-				console.log(`[${repoLabel}] Fetched ${prCount} PRs (with files), ${issueCount} issues`);
-			}
-		});
+	process.once("SIGINT", onInterrupt);
+
+	const fetchSource = async (source: Source, query: FetchQuery): Promise<Item[]> => {
+		const saved = checkpoints.source(source.label);
+		syncState.repos[source.label] = saved.startedAt;
+		if (saved.finished) {
+			console.log(`[${source.label}] Using ${saved.progress!.items.length} items from the checkpoint`);
+			return saved.progress!.items;
+		}
+		const items = dedupeByUrl(await source.fetch({ ...query, checkpoint: saved.checkpoint }));
+		for (const item of items) {
+			item.repo = source.label;
+			addTextLinks(item, source.label);
+		}
+		checkpoints.finish(source.label, items);
+		return items;
 	};
 
-	// Helper for REST fetching of issues
-	const fetchEndpoint = async (endpoint: string, itemType: "pr" | "issue") => {
-		const jqFilter =
-			itemType === "issue"
-				? '.[] | select(.pull_request == null) | {url: .html_url, number: .number, title: .title, body: .body, state: .state, type: "issue"}'
-				: '.[] | {url: .html_url, number: .number, title: .title, body: .body, state: .state, type: "pr"}';
-
-		const args = ["api", "--paginate", endpoint, "--jq", jqFilter];
-
-		await streamGhJson(args, (item) => {
-			items.push(item);
-			if (itemType === "pr") prCount++;
-			else issueCount++;
-			const total = prCount + issueCount;
-			if (total % 200 === 0) {
-				console.log(`[${repoLabel}] Fetched ${prCount} PRs, ${issueCount} issues`);
+	let added = 0;
+	let updated = 0;
+	try {
+		for (const source of sources) {
+			if (!isIncremental(source)) {
+				const query = { ...settings, createdSince: sinceFilter?.cutoff };
+				const items = (await fetchSource(source, query)).filter((item) => matchesFilters(item, query));
+				result.push(...items);
+				added += items.length;
+				continue;
 			}
-		});
-	};
 
-	if (type === "pr" || type === "all") {
-		if (sinceFilter) {
-			await fetchWithSinceSearch("pr");
-		} else {
-			await fetchPrsGraphql();
+			// Incremental mode fetches every state so transitions like open -> closed are picked up
+			const lastSync = new Date(previousSync!.repos[source.label]);
+			const updatedSince =
+				settings.updatedSince && settings.updatedSince > lastSync ? settings.updatedSince : lastSync;
+			console.log(`[${source.label}] Fetching items updated since last sync at ${lastSync.toISOString()}`);
+			const fetched = await fetchSource(source, { ...settings, state: "all", updatedSince });
+
+			// Known items that no longer match the filters, e.g. after gaining an excluded label, are dropped
+			const items = fetched.filter((item) => matchesFilters(item, settings));
+			const droppedUrls = new Set(fetched.filter((item) => !items.includes(item)).map((item) => item.url));
+			if (droppedUrls.size > 0) result = result.filter((item) => !droppedUrls.has(item.url));
+
+			const existingUrls = new Set(result.map((item) => item.url));
+			// New items created before the --since cutoff are dropped, known ones are always updated
+			const updates = sinceFilter
+				? items.filter(
+						(item) =>
+							existingUrls.has(item.url) ||
+							!item.createdAt ||
+							Date.parse(item.createdAt) >= sinceFilter.cutoff.getTime(),
+					)
+				: items;
+			const merge = mergeItems(result, updates, state);
+			result = merge.items;
+			added += merge.added;
+			updated += merge.updated;
 		}
+	} catch (error) {
+		checkpoints.flush();
+		console.error(`Fetch failed. Progress was saved, run the same command again to resume.`);
+		throw error;
+	} finally {
+		process.off("SIGINT", onInterrupt);
 	}
 
-	if (type === "issue" || type === "all") {
-		if (sinceFilter) {
-			await fetchWithSinceSearch("issue");
-		} else {
-			const issueEndpoint = `/repos/${owner}/${name}/issues?state=${state}&per_page=100`;
-			await fetchEndpoint(issueEndpoint, "issue");
-		}
-	}
-
-	fs.writeFileSync(outputPath, JSON.stringify(items, null, 2));
+	fs.writeFileSync(outputPath, JSON.stringify(result, null, 2));
+	fs.writeFileSync(syncStatePath(outputPath), JSON.stringify(syncState, null, 2));
+	checkpoints.remove();
 
-	return { total: items.length, prs: prCount, issues: issueCount };
+	return {
+		total: result.length,
+		prs: result.filter((item) => item.type === "pr").length,
+		issues: result.filter((item) => item.type === "issue").length,
+		added,
+		updated,
+	};
 }
 
 async function main() {
 	const args = process.argv.slice(2);
+	if (args[0] === "dupes") {
+		await dupes(parseDupesArgs(args.slice(1)));
+		return;
+	}
 	const options: TriageOptions = {
-		repo: null,
+		repos: [],
+		imports: [],
+		fieldMapping: {},
 		state: "open",
 		type: "all",
 		since: undefined,
+		labels: [],
+		excludeLabels: [],
+		authors: [],
+		excludeBots: false,
+		incremental: false,
+		diffs: false,
+		comments: false,
+		botComments: false,
+		links: false,
+		maxComments: 5,
+		commentChars: 2000,
+		sidebarComments: 5,
 		output: "prs.json",
 		embeddings: "embeddings.jsonl",
+		cacheDir: defaultCacheDir(),
 		html: "triage.html",
-		model: "text-embedding-3-small",
 		batch: 100,
+		boilerplateThreshold: 0,
+		stripPatterns: [],
+		showText: false,
+		dryRun: false,
+		chunkOverlap: 200,
+		maxChunks: 8,
+		pooling: "mean",
+		keepChunks: false,
+		searchEncoding: "float32",
+		concurrency: 4,
 		maxChars: 4000,
 		bodyChars: 2000,
 		neighbors: 15,
 		minDist: 0.1,
 		spread: 1.0,
+		minClusterSize: 5,
 		force: false,
 		search: false,
 	};
@@ -321,7 +412,23 @@ async function main() {
 	for (let i = 0; i < args.length; i += 1) {
 		const arg = args[i];
 		if (arg === "--repo") {
-			options.repo = args[++i];
+			options.repos.push(args[++i]);
+		} else if (arg === "--import") {
+			options.imports.push(args[++i]);
+		} else if (arg === "--format") {
+			const val = args[++i] as ImportFormat;
+			if (!IMPORT_FORMATS.includes(val)) {
+				console.error(`--format must be ${IMPORT_FORMATS.join(", ")}`);
+				process.exit(1);
+			}
+			options.importFormat = val;
+		} else if (arg === "--map") {
+			try {
+				options.fieldMapping = parseFieldMapping(args[++i] ?? "", options.fieldMapping);
+			} catch (error) {
+				console.error((error as Error).message);
+				process.exit(1);
+			}
 		} else if (arg === "--state") {
 			const val = args[++i];
 			if (val !== "open" && val !== "closed" && val !== "all") {
@@ -347,16 +454,86 @@ async function main() {
 				process.exit(1);
 			}
 			options.since = val;
+		} else if (arg === "--until" || arg === "--updated-since") {
+			const val = args[++i];
+			if (!val) {
+				console.error(`${arg} requires a value (YYYY-MM-DD or <days>d, e.g. 14d)`);
+				process.exit(1);
+			}
+			if (arg === "--until") options.until = val;
+			else options.updatedSince = val;
+		} else if (arg === "--label") {
+			options.labels.push(args[++i]);
+		} else if (arg === "--exclude-label") {
+			options.excludeLabels.push(args[++i]);
+		} else if (arg === "--author") {
+			options.authors.push(args[++i]);
+		} else if (arg === "--exclude-bots") {
+			options.excludeBots = true;
+		} else if (arg === "--incremental") {
+			options.incremental = true;
+		} else if (arg === "--diffs") {
+			options.diffs = true;
+		} else if (arg === "--comments") {
+			options.comments = true;
+		} else if (arg === "--bot-comments") {
+			options.botComments = true;
+		} else if (arg === "--links") {
+			options.links = true;
+		} else if (arg === "--max-comments") {
+			options.maxComments = Number(args[++i]);
+		} else if (arg === "--comment-chars") {
+			options.commentChars = Number(args[++i]);
+		} else if (arg === "--sidebar-comments") {
+			options.sidebarComments = Number(args[++i]);
+		} else if (arg === "--provider") {
+			const val = args[++i] as Provider;
+			if (!PROVIDERS.includes(val)) {
+				console.error(`--provider must be ${PROVIDERS.join(", ")}`);
+				process.exit(1);
+			}
+			options.provider = val;
+		} else if (arg === "--api-url") {
+			options.apiUrl = args[++i];
 		} else if (arg === "--output") {
 			options.output = args[++i];
 		} else if (arg === "--embeddings") {
 			options.embeddings = args[++i];
+		} else if (arg === "--cache") {
+			options.cacheDir = args[++i];
+		} else if (arg === "--no-cache") {
+			options.cacheDir = undefined;
 		} else if (arg === "--html") {
 			options.html = args[++i];
+		} else if (arg === "--embedding-provider") {
+			const val = args[++i] as EmbeddingProviderName;
+			if (!EMBEDDING_PROVIDERS.includes(val)) {
+				console.error(`--embedding-provider must be ${EMBEDDING_PROVIDERS.join(", ")}`);
+				process.exit(1);
+			}
+			options.embeddingProvider = val;
 		} else if (arg === "--model") {
 			options.model = args[++i];
+		} else if (arg === "--base-url") {
+			options.baseUrl = args[++i];
+		} else if (arg === "--dimensions") {
+			options.dimensions = Number(args[++i]);
+		} else if (arg === "--document-prefix") {
+			options.documentPrefix = args[++i];
+		} else if (arg === "--query-prefix") {
+			options.queryPrefix = args[++i];
+		} else if (arg === "--context-size") {
+			options.contextSize = Number(args[++i]);
+		} else if (arg === "--threads") {
+			options.threads = Number(args[++i]);
+		} else if (arg === "--sequences") {
+			options.sequences = Number(args[++i]);
 		} else if (arg === "--batch") {
 			options.batch = Number(args[++i]);
+		} else if (arg === "--batch-tokens") {
+			options.batchTokens = Number(args[++i]);
+		} else if (arg === "--concurrency") {
+			options.concurrency = Number(args[++i]);
 		} else if (arg === "--max-chars") {
 			options.maxChars = Number(args[++i]);
 		} else if (arg === "--body-chars") {
@@ -370,88 +547,324 @@ async function main() {
 		} else if (arg === "--spread") {
 			const val = Number(args[++i]);
 			options.spread = Number.isNaN(val) ? 1.0 : val;
+		} else if (arg === "--min-cluster-size") {
+			const val = Number(args[++i]);
+			options.minClusterSize = Number.isNaN(val) ? 5 : val;
 		} else if (arg === "--force") {
 			options.force = true;
 		} else if (arg === "--search") {
 			options.search = true;
 		} else if (arg === "--local-model") {
 			options.localModel = args[++i];
+		} else if (arg === "--boilerplate-threshold") {
+			options.boilerplateThreshold = Number(args[++i]);
+		} else if (arg === "--strip") {
+			try {
+				options.stripPatterns.push(parseStripPattern(args[++i]));
+			} catch (error) {
+				console.error((error as Error).message);
+				process.exit(1);
+			}
+		} else if (arg === "--show-text") {
+			options.showText = true;
+		} else if (arg === "--dry-run") {
+			options.dryRun = true;
+		} else if (arg === "--chunk-chars") {
+			options.chunkChars = Number(args[++i]);
+		} else if (arg === "--chunk-overlap") {
+			options.chunkOverlap = Number(args[++i]);
+		} else if (arg === "--max-chunks") {
+			options.maxChunks = Number(args[++i]);
+		} else if (arg === "--pooling") {
+			const val = args[++i] as Pooling;
+			if (!POOLINGS.includes(val)) {
+				console.error(`--pooling must be ${POOLINGS.join(", ")}`);
+				process.exit(1);
+			}
+			options.pooling = val;
+		} else if (arg === "--keep-chunks") {
+			options.keepChunks = true;
+		} else if (arg === "--vectors" || arg === "--search-vectors") {
+			const val = args[++i] as VectorEncoding;
+			if (!VECTOR_ENCODINGS.includes(val)) {
+				console.error(`${arg} must be ${VECTOR_ENCODINGS.join(", ")}`);
+				process.exit(1);
+			}
+			if (arg === "--vectors") options.vectorEncoding = val;
+			else options.searchEncoding = val;
+		} else if (arg === "--weights") {
+			try {
+				options.weights = parseWeights(args[++i]);
+			} catch (error) {
+				console.error((error as Error).message);
+				process.exit(1);
+			}
 		} else if (arg === "--help" || arg === "-h") {
 			console.log(`
 doppelgangers - Find duplicate PRs through embedding visualization
 
 Usage:
   doppelgangers --repo <owner/repo>
+  doppelgangers --import <file> [--map title=Summary,body=Description]
+  doppelgangers dupes [--embeddings <path>] [--output report.md]   (see doppelgangers dupes --help)
 
 Options:
-  --repo <url|owner/repo>   GitHub repository (required)
+  --repo <url|owner/repo>   Repository URL or owner/repo on GitHub, GitLab, Gitea or Forgejo (required).
+                            Repeat to map several repos together, owner/* maps every repo of an org
+  --import <path>           Read items from a JSONL, JSON, CSV or Jira JSON export file instead of, or in
+                            addition to, --repo. Repeatable
+  --format <format>         Import format: jsonl, json, csv, or jira (default: detected from the file)
+  --map <field=column,...>  Import field mapping for url, number, title, body, state, type, createdAt,
+                            updatedAt, author, labels, assignees, milestone (default: same-named columns)
   --state <state>           Item state: open, closed, or all (default: open)
   --type <type>             Item type: pr, issue, or all (default: all)
   --since <value>           Created-date cutoff (YYYY-MM-DD or <days>d, e.g. 14d)
+  --until <value>           Created on or before this day (YYYY-MM-DD or <days>d)
+  --updated-since <value>   Updated-date cutoff (YYYY-MM-DD or <days>d)
+  --label <name>            Only items with this label. Repeat to require several
+  --exclude-label <name>    Skip items with this label. Repeatable
+  --author <login>          Only items by this author. Repeat to allow several
+  --exclude-bots            Skip items opened by bots (dependabot, renovate, ...)
+  --incremental             Only fetch items updated since the last run and merge them into --output
+  --diffs                   Fetch every changed file of each PR and embed a summary of its diff
+  --comments                Fetch issue comments and PR review comments and embed the top ones
+  --bot-comments            Keep comments by bots (default: excluded)
+  --links                   Fetch closing references and cross-references between items (GitHub)
+  --max-comments <n>        Comments per item included in the embedding input (default: 5)
+  --comment-chars <n>       Max chars for comments in the embedding input, on top of --max-chars (default: 2000)
+  --sidebar-comments <n>    Most reacted-to comments per item kept for the viewer's sidebar (default: 5)
+  --provider <provider>     github, gitlab, or gitea (default: detected from the repo URL host)
+  --api-url <url>           API base URL (default: derived from the repo URL host)
   --output <path>           Output path for items JSON (default: prs.json)
   --embeddings <path>       Output path for embeddings (default: embeddings.jsonl)
+  --cache <dir>             Embedding cache directory (default: ~/.cache/doppelgangers/embeddings)
+  --no-cache                Embed every item again and don't cache the results
   --html <path>             Output path for HTML viewer (default: triage.html)
-  --model <model>           OpenAI embedding model (default: text-embedding-3-small)
-  --batch <n>               Batch size for embeddings (default: 100)
+  --embedding-provider <p>  openai, ollama, voyage, cohere, or local (default: openai, local with --local-model)
+  --model <model>           Embedding model (default: text-embedding-3-small, nomic-embed-text on ollama,
+                            voyage-3.5 on voyage, embed-v4.0 on cohere)
+  --base-url <url>          Embedding API base URL, e.g. http://localhost:8000/v1 for vLLM or LM Studio
+  --dimensions <n>          Shorter vectors: requested from models that support it, truncated for the others
+  --batch <n>               Max items per embedding request (default: 100)
+  --batch-tokens <n>        Max estimated tokens per embedding request (default: the provider's limit)
+  --concurrency <n>         Embedding requests in flight at once (default: 4)
   --max-chars <n>           Max chars for embedding input (default: 4000)
+  --boilerplate-threshold <percent>
+                            Strip body lines found in more than this share of a repo's items, e.g. 30
+                            (default: 0, off). Changes the embedding input, so items are embedded again
+  --strip <regex>           Remove matches from bodies before embedding, /pattern/flags works too. Repeatable
+  --show-text               Print the embedding input of every item and stop before embedding
+  --dry-run                 Report the items, estimated tokens and cost to embed and stop before embedding
+  --chunk-chars <n>         Split inputs longer than this into chunks instead of truncating at --max-chars
+  --chunk-overlap <n>       Chars shared by neighboring chunks (default: 200)
+  --max-chunks <n>          Max chunks per item (default: 8)
+  --pooling <p>             Combine chunk vectors by mean, max, or title (default: mean)
+  --keep-chunks             Keep chunk vectors so semantic search can show the matching passage
+  --weights <weights>       Embed title, body and file paths separately and weigh them for the map,
+                            e.g. title=0.5,body=0.3,files=0.2
+  --vectors <encoding>      Store vectors in a binary file next to the embeddings: float32, int8, or binary
+  --search-vectors <encoding>
+                            Encoding of the --search vectors in the viewer: float32, int8, or binary
+                            (default: float32)
   --body-chars <n>          Max chars for body snippet (default: 2000)
   --neighbors <n>           UMAP neighbors (default: 15)
   --min-dist <n>            UMAP min distance (default: 0.1)
   --spread <n>              UMAP spread (default: 1.0)
+  --min-cluster-size <n>    Smallest cluster on the map, 0 turns clustering off (default: 5)
   --force                   Force re-calculation of projections
   --search                  Include embeddings for semantic search (increases file size)
   --local-model <path>      Path to local GGUF model for embeddings (optional)
+  --document-prefix <text>  Prefix for embedded items, e.g. "search_document: " (default: by model for ollama
+                            and local models, nomic-embed, e5, bge and mxbai are known)
+  --query-prefix <text>     Prefix for search queries, e.g. "search_query: " (default: by model like above)
+  --context-size <n>        Local model context size in tokens, longer inputs are cut (default: the model's)
+  --threads <n>             CPU threads for the local model (default: all cores)
+  --sequences <n>           Inputs the local model embeds in parallel, each in its own context (default: 1)
 
 Environment:
-  OPENAI_API_KEY            Required for embedding generation (unless --local-model is used)
+  OPENAI_API_KEY            Required for the openai embedding provider, unless --base-url is set
+  VOYAGE_API_KEY            Required for the voyage embedding provider
+  COHERE_API_KEY            Required for the cohere embedding provider, CO_API_KEY also works
+  GITHUB_TOKEN              GitHub token for the built-in API client (falls back to the gh CLI if unset)
+  GITHUB_API_URL            Default for --api-url on GitHub
+  GITLAB_TOKEN              GitLab token (optional for public projects)
+  GITEA_TOKEN               Gitea/Forgejo token (optional for public repos), FORGEJO_TOKEN also works
 `);
 			process.exit(0);
 		}
 	}
 
-	if (!options.repo) {
-		console.error("--repo is required. Use --help for usage.");
+	if (options.repos.length === 0 && options.imports.length === 0) {
+		console.error("--repo or --import is required. Use --help for usage.");
+		process.exit(1);
+	}
+	if (options.chunkChars && options.chunkOverlap >= options.chunkChars) {
+		console.error("--chunk-overlap must be smaller than --chunk-chars");
 		process.exit(1);
 	}
 
-	const repoInfo = parseRepo(options.repo);
-	if (!repoInfo) {
-		console.error("Could not parse repo. Use https://github.com/org/repo or org/repo");
+	let repoRefs: RepoRef[];
+	try {
+		repoRefs = options.repos.map((repo) => parseRepo(repo, options.provider));
+	} catch (error) {
+		console.error((error as Error).message);
 		process.exit(1);
 	}
 
 	let sinceFilter: SinceFilter | undefined;
-	if (options.since) {
-		try {
-			sinceFilter = parseSinceValue(options.since);
-		} catch (error) {
-			console.error((error as Error).message);
+	let untilFilter: SinceFilter | undefined;
+	let updatedFilter: SinceFilter | undefined;
+	try {
+		if (options.since) sinceFilter = parseSinceValue(options.since);
+		if (options.until) untilFilter = parseUntilValue(options.until);
+		if (options.updatedSince) updatedFilter = parseSinceValue(options.updatedSince, "--updated-since");
+	} catch (error) {
+		console.error((error as Error).message);
+		process.exit(1);
+	}
+
+	const sources: Source[] = [];
+	const seenLabels = new Set<string>();
+	for (const ref of repoRefs) {
+		const expanded = await expandRepo(ref, options.apiUrl);
+		if (ref.name === "*") {
+			console.log(`Expanded ${repoLabel(ref)} to ${expanded.length} repos`);
+		}
+		for (const repo of expanded) {
+			const label = repoLabel(repo);
+			if (seenLabels.has(label)) continue;
+			seenLabels.add(label);
+			sources.push(createSource(repo, options.apiUrl));
+		}
+	}
+	for (const file of options.imports) {
+		if (!fs.existsSync(file)) {
+			console.error(`Import file not found: ${file}`);
 			process.exit(1);
 		}
+		sources.push(createFileSource({ path: file, format: options.importFormat, mapping: options.fieldMapping }));
+	}
+	if (sources.length === 0) {
+		console.error("No repositories to fetch.");
+		process.exit(1);
 	}
 
-	const { owner, name } = repoInfo;
 	const typeLabel = options.type === "all" ? "PRs and issues" : options.type === "pr" ? "PRs" : "issues";
-	console.log(`Fetching ${options.state} ${typeLabel} for ${owner}/${name}`);
+	console.log(`Fetching ${options.state} ${typeLabel} for ${sources.map((source) => source.label).join(", ")}`);
 	if (sinceFilter) {
 		console.log(`Filtering by created date since ${sinceFilter.cutoffYmd} (from --since ${sinceFilter.raw})`);
 	}
+	if (untilFilter) {
+		console.log(`Filtering by created date until ${untilFilter.cutoffYmd} (from --until ${untilFilter.raw})`);
+	}
+	if (updatedFilter) {
+		console.log(
+			`Filtering by updated date since ${updatedFilter.cutoffYmd} (from --updated-since ${updatedFilter.raw})`,
+		);
+	}
+	const filterParts = [
+		...options.labels.map((label) => `label ${label}`),
+		...options.excludeLabels.map((label) => `not label ${label}`),
+		...(options.authors.length > 0 ? [`author ${options.authors.join(" or ")}`] : []),
+		...(options.excludeBots ? ["no bots"] : []),
+	];
+	if (filterParts.length > 0) console.log(`Filtering by ${filterParts.join(", ")}`);
 
 	const outputPath = path.resolve(options.output);
-	const result = await fetchItems(owner, name, options.state, options.type, outputPath, sinceFilter);
-	console.log(`Wrote ${outputPath} (${result.prs} PRs, ${result.issues} issues)`);
+	let previousSync: SyncState | null = null;
+	const settings: FetchSettings = {
+		state: options.state,
+		type: options.type,
+		includeDiffs: options.diffs,
+		includeComments: options.comments,
+		includeBotComments: options.botComments,
+		includeLinks: options.links,
+		createdUntil: untilFilter?.cutoff,
+		updatedSince: updatedFilter?.cutoff,
+		labels: options.labels,
+		excludeLabels: options.excludeLabels,
+		authors: options.authors,
+		excludeBots: options.excludeBots,
+	};
+	// Incremental runs only merge into items fetched with the same filters
+	const filtersKey = JSON.stringify({
+		until: options.until,
+		updatedSince: options.updatedSince,
+		labels: options.labels,
+		excludeLabels: options.excludeLabels,
+		authors: options.authors,
+		excludeBots: options.excludeBots,
+	});
+	if (options.incremental) {
+		previousSync = readSyncState(outputPath);
+		if (!previousSync) {
+			console.log(`No previous sync found for ${outputPath}. Doing a full fetch.`);
+		} else if (
+			previousSync.state !== options.state ||
+			previousSync.type !== options.type ||
+			Boolean(previousSync.diffs) !== options.diffs ||
+			Boolean(previousSync.comments) !== options.comments ||
+			Boolean(previousSync.botComments) !== options.botComments ||
+			Boolean(previousSync.links) !== options.links ||
+			(previousSync.filters ?? filtersKey) !== filtersKey
+		) {
+			console.log(`Previous sync used different fetch options or filters. Doing a full fetch.`);
+			previousSync = null;
+		}
+	}
+
+	const result = await fetchItems(sources, settings, outputPath, filtersKey, sinceFilter, previousSync);
+	if (previousSync) {
+		console.log(
+			`Wrote ${outputPath} (${result.prs} PRs, ${result.issues} issues, ${result.added} added, ${result.updated} updated)`,
+		);
+	} else {
+		console.log(`Wrote ${outputPath} (${result.prs} PRs, ${result.issues} issues)`);
+	}
 
 	const embedOptions: EmbedOptions = {
 		input: outputPath,
 		output: path.resolve(options.embeddings),
+		provider: options.embeddingProvider ?? (options.localModel ? "local" : "openai"),
 		model: options.model,
+		baseUrl: options.baseUrl,
+		dimensions: options.dimensions,
+		documentPrefix: options.documentPrefix,
+		queryPrefix: options.queryPrefix,
+		contextSize: options.contextSize,
+		threads: options.threads,
+		sequences: options.sequences,
 		batchSize: options.batch,
+		batchTokens: options.batchTokens,
+		concurrency: options.concurrency,
 		maxChars: options.maxChars,
 		bodyChars: options.bodyChars,
-		resume: false,
+		maxComments: options.maxComments,
+		commentChars: options.commentChars,
+		sidebarComments: options.sidebarComments,
+		cacheDir: options.cacheDir,
 		localModel: options.localModel,
+		boilerplateThreshold: options.boilerplateThreshold,
+		stripPatterns: options.stripPatterns,
+		showText: options.showText,
+		dryRun: options.dryRun,
+		chunkChars: options.chunkChars,
+		chunkOverlap: options.chunkOverlap,
+		maxChunks: options.maxChunks,
+		pooling: options.pooling,
+		keepChunks: options.keepChunks,
+		fields: options.weights !== undefined,
+		vectorEncoding: options.vectorEncoding,
 	};
+	// Checked again by build, but failing here saves embedding for nothing
+	if (options.search && !SEARCH_PROVIDERS.includes(embedOptions.provider)) {
+		console.error(
+			`--search embeds queries with ${SEARCH_PROVIDERS.join(" or ")}, it can't query ${embedOptions.provider} vectors`,
+		);
+		process.exit(1);
+	}
 	await embed(embedOptions);
+	if (options.showText || options.dryRun) return;
 
 	const embeddingsPath = path.resolve(options.embeddings);
 	const projectionsPath = embeddingsPath.replace(/\.[^.]+$/, "-projections.json");
@@ -463,8 +876,11 @@ Environment:
 		neighbors: options.neighbors,
 		minDist: options.minDist,
 		spread: options.spread,
+		minClusterSize: options.minClusterSize,
 		force: options.force,
 		includeEmbeddings: options.search,
+		weights: options.weights,
+		searchEncoding: options.searchEncoding,
 	};
 	await build(buildOptions);
 
@@ -0,0 +1,142 @@
+import fs from "fs";
+import type { EmbeddingRecord } from "./embed.js";
+
+// Binary vector storage. With a vector encoding set, the embeddings JSONL only holds metadata and the
+// row number of each vector in a binary file next to it, which is a fraction of the size of numbers as
+// JSON text. The same encodings make the vectors of search-enabled viewers small.
+
+// float32 keeps the vectors as they are. int8 stores a float32 scale and one byte per dimension, binary
+// one bit per dimension (the sign), both good enough for cosine similarity.
+export type VectorEncoding = "float32" | "int8" | "binary";
+
+export const VECTOR_ENCODINGS: VectorEncoding[] = ["float32", "int8", "binary"];
+
+const MAGIC = "DGVEC1";
+
+export function vectorBytes(encoding: VectorEncoding, dimensions: number): number {
+	if (encoding === "int8") return 4 + dimensions;
+	if (encoding === "binary") return Math.ceil(dimensions / 8);
+	return dimensions * 4;
+}
+
+export function encodeVector(vector: number[], encoding: VectorEncoding): Buffer {
+	const buffer = Buffer.alloc(vectorBytes(encoding, vector.length));
+	if (encoding === "float32") {
+		vector.forEach((value, i) => {
+			buffer.writeFloatLE(value, i * 4);
+		});
+	} else if (encoding === "int8") {
+		const scale = Math.max(...vector.map(Math.abs)) / 127 || 1;
+		buffer.writeFloatLE(scale, 0);
+		vector.forEach((value, i) => {
+			buffer.writeInt8(Math.round(value / scale), 4 + i);
+		});
+	} else {
+		vector.forEach((value, i) => {
+			if (value > 0) buffer[i >> 3] |= 0x80 >> (i & 7);
+		});
+	}
+	return buffer;
+}
+
+export function decodeVector(buffer: Buffer, encoding: VectorEncoding, dimensions: number): number[] {
+	const vector = new Array<number>(dimensions);
+	if (encoding === "float32") {
+		for (let i = 0; i < dimensions; i += 1) vector[i] = buffer.readFloatLE(i * 4);
+	} else if (encoding === "int8") {
+		const scale = buffer.readFloatLE(0);
+		for (let i = 0; i < dimensions; i += 1) vector[i] = buffer.readInt8(4 + i) * scale;
+	} else {
+		for (let i = 0; i < dimensions; i += 1) vector[i] = buffer[i >> 3] & (0x80 >> (i & 7)) ? 1 : -1;
+	}
+	return vector;
+}
+
+// embeddings.jsonl -> embeddings.vectors.bin
+export function vectorStorePath(recordsPath: string): string {
+	return `${recordsPath.replace(/\.jsonl$/, "")}.vectors.bin`;
+}
+
+export interface VectorWriter {
+	// Appends the vector and returns its row number
+	write(vector: number[]): number;
+	close(): void;
+}
+
+// The file starts with a header line naming the encoding and dimensions, rows of equal size follow
+export function createVectorWriter(filePath: string, encoding: VectorEncoding): VectorWriter {
+	const fd = fs.openSync(filePath, "w");
+	let dimensions: number | undefined;
+	let rows = 0;
+	const writeHeader = (size: number) => {
+		dimensions = size;
+		fs.writeSync(fd, `${MAGIC} ${JSON.stringify({ encoding, dimensions })}\n`);
+	};
+	return {
+		write: (vector) => {
+			if (dimensions === undefined) writeHeader(vector.length);
+			if (vector.length !== dimensions) {
+				throw new Error(`Vector store ${filePath} holds ${dimensions} dimensions, got ${vector.length}`);
+			}
+			fs.writeSync(fd, encodeVector(vector, encoding));
+			return rows++;
+		},
+		close: () => {
+			if (dimensions === undefined) writeHeader(0);
+			fs.closeSync(fd);
+		},
+	};
+}
+
+// Replaces the vectors of a record with their row numbers in the store
+export function packRecord(record: EmbeddingRecord, writer: VectorWriter): unknown {
+	return {
+		...record,
+		embedding: writer.write(record.embedding),
+		chunks: record.chunks?.map((chunk) => ({ ...chunk, embedding: writer.write(chunk.embedding) })),
+		fieldEmbeddings: record.fieldEmbeddings
+			? Object.fromEntries(
+					Object.entries(record.fieldEmbeddings).map(([field, vector]) => [field, writer.write(vector)]),
+				)
+			: undefined,
+	};
+}
+
+const readVectorStore = (filePath: string) => {
+	if (!fs.existsSync(filePath)) throw new Error(`Vector store ${filePath} not found`);
+	const data = fs.readFileSync(filePath);
+	const headerEnd = data.indexOf("\n");
+	const header = data.subarray(0, headerEnd).toString("utf8");
+	if (!header.startsWith(`${MAGIC} `)) throw new Error(`${filePath} is not a vector store`);
+	const { encoding, dimensions } = JSON.parse(header.slice(MAGIC.length + 1));
+	const size = vectorBytes(encoding, dimensions);
+	return (row: number): number[] => {
+		const start = headerEnd + 1 + row * size;
+		if (start + size > data.length) throw new Error(`Vector store ${filePath} has no row ${row}`);
+		return decodeVector(data.subarray(start, start + size), encoding, dimensions);
+	};
+};
+
+// Reads embedding records with their vectors, inline or from the vector store
+export function readEmbeddingRecords(recordsPath: string): EmbeddingRecord[] {
+	const records: any[] = [];
+	for (const line of fs.readFileSync(recordsPath, "utf8").split("\n")) {
+		if (!line) continue;
+		try {
+			records.push(JSON.parse(line));
+		} catch {
+			// skip invalid lines
+		}
+	}
+	if (!records.some((record) => typeof record.embedding === "number")) return records;
+
+	const row = readVectorStore(vectorStorePath(recordsPath));
+	for (const record of records) {
+		record.embedding = row(record.embedding);
+		for (const chunk of record.chunks ?? []) chunk.embedding = row(chunk.embedding);
+		for (const field of Object.keys(record.fieldEmbeddings ?? {})) {
+			record.fieldEmbeddings[field] = row(record.fieldEmbeddings[field]);
+		}
+	}
+	return records;
+}